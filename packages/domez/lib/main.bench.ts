@@ -0,0 +1,54 @@
+import { Context, html, render } from "./main";
+
+const container = document.body;
+const rowCount = 5000;
+
+const cells = html`<td class="cell"><i class="icon"></i><em>Name</em></td>
+  <td class="cell"><a href="#">Link</a></td>
+  <td class="cell"><strong>Status</strong><small>Updated</small></td>
+  <td class="cell">
+    <span class="badge">Tag</span><span class="badge">Tag</span>
+  </td>`;
+
+const measure = (rowBuilder: (context: Context) => string) => {
+  const App = ({ list }: Context) =>
+    html`<table>
+      <tbody>
+        ${list(rowBuilder, rowCount)}
+      </tbody>
+    </table>`;
+  const start = performance.now();
+  render(container, App);
+  return performance.now() - start;
+};
+
+test(`mount list of ${rowCount} rows`, () => {
+  let uniqueId = 0;
+  // the template of each row is unique so it must be parsed for every row
+  const UniqueRow = ({ ref }: Context) =>
+    html`<tr class="row">
+      ${cells}
+      <td ${ref({ text: "row" })}></td>
+      <td><button ${ref({ onclick: () => {} })}>${uniqueId++}</button></td>
+    </tr>`;
+  // all rows have the same template, it is parsed once and cloned for other rows
+  const SharedRow = ({ ref }: Context) =>
+    html`<tr class="row">
+      ${cells}
+      <td ${ref({ text: "row" })}></td>
+      <td><button ${ref({ onclick: () => {} })}>Remove</button></td>
+    </tr>`;
+
+  // warm up
+  measure(SharedRow);
+  const uncached = measure(UniqueRow);
+  const cached = measure(SharedRow);
+
+  console.log(
+    [
+      `uncached templates: ${uncached.toFixed(2)}ms`,
+      `cached templates: ${cached.toFixed(2)}ms`,
+      `${(uncached / cached).toFixed(2)}x faster`,
+    ].join("\n")
+  );
+});
@@ -1,4 +1,31 @@
-import { Context, html, render } from "./main";
+import {
+  batch,
+  computed,
+  createKey,
+  createMemoryStorage,
+  css,
+  defineElement,
+  Context,
+  Controller,
+  flush,
+  html,
+  hydrate,
+  lazy,
+  List,
+  ListItem,
+  render,
+  renderToString,
+  resource,
+  RouteMatch,
+  router,
+  setScheduler,
+  setTransitions,
+  shallowEqual,
+  Signal,
+  signal,
+  VirtualList,
+  withHistory,
+} from "./main";
 
 const container = document.body;
 
@@ -13,3 +40,1464 @@ test("should render block with param properly", () => {
   render(container, App, "Hello World");
   expect(container.textContent).toBe("Hello World");
 });
+
+test("should reuse existing blocks when assigning new data to the list", () => {
+  const created: number[] = [];
+  const updated: number[] = [];
+  const Item = (_: Context, item: { id: number; title: string }) => {
+    created.push(item.id);
+    return {
+      template: html`<div>${item.title}</div>`,
+      update(next: { id: number; title: string }) {
+        updated.push(next.id);
+      },
+    };
+  };
+  let list: List<any, { id: number; title: string }>;
+  const App = ({ list: createList }: Context) => {
+    list = createList(Item, [
+      { id: 1, title: "A" },
+      { id: 2, title: "B" },
+      { id: 3, title: "C" },
+    ]);
+    return html`<div>${list}</div>`;
+  };
+  render(container, App);
+  const nodes = Array.from(container.firstElementChild!.children);
+  list!.assign(
+    [
+      { id: 3, title: "C" },
+      { id: 4, title: "D" },
+      { id: 1, title: "A" },
+    ],
+    { key: "id" }
+  );
+  expect(container.textContent).toBe("CDA");
+  expect(created).toEqual([1, 2, 3, 4]);
+  expect(updated.sort()).toEqual([1, 3]);
+  expect(container.firstElementChild!.children[0]).toBe(nodes[2]);
+  expect(container.firstElementChild!.children[2]).toBe(nodes[0]);
+});
+
+test("should re-create the reused blocks that cannot handle new data", () => {
+  const Item = (_: Context, item: { id: number; title: string }) =>
+    html`<li>${item.title}</li>`;
+  const second = { id: 2, title: "B" };
+  let list: List<any, { id: number; title: string }>;
+  const App = ({ list: createList }: Context) => {
+    list = createList(Item, [{ id: 1, title: "A" }, second]);
+    return html`<ul>
+      ${list}
+    </ul>`;
+  };
+  render(container, App);
+  const nodes = Array.from(container.firstElementChild!.children);
+  list!.assign([{ id: 1, title: "C" }, second], { key: "id" });
+  expect(container.textContent!.trim()).toBe("CB");
+  expect(container.firstElementChild!.children[0]).not.toBe(nodes[0]);
+  // the block of unchanged data is kept
+  expect(container.firstElementChild!.children[1]).toBe(nodes[1]);
+});
+
+test("should compute derived value from other signals lazily", () => {
+  const todos = signal([{ done: true }, { done: false }]);
+  const compute = jest.fn(() => todos.state.filter((x) => x.done).length);
+  const doneCount = computed(compute);
+  expect(compute).toBeCalledTimes(0);
+  expect(doneCount.state).toBe(1);
+  expect(doneCount.state).toBe(1);
+  expect(compute).toBeCalledTimes(1);
+  todos.set([{ done: true }, { done: true }]);
+  expect(doneCount.state).toBe(2);
+});
+
+test("should update bindings once computed signal changed", () => {
+  const count = signal(1);
+  const doubled = computed(() => count.state * 2);
+  const App = ({ on }: Context) => html`<h1 ${on(doubled).text()}></h1>`;
+  render(container, App);
+  expect(container.textContent).toBe("2");
+  count.set(2);
+  expect(container.textContent).toBe("4");
+});
+
+test("should call listener once per batch", () => {
+  const a = signal(1);
+  const b = signal(2);
+  const listener = jest.fn();
+  const App = ({ on }: Context) => {
+    on([a, b], listener);
+    return html`<div></div>`;
+  };
+  render(container, App);
+  listener.mockClear();
+  batch(() => {
+    a.set(3);
+    b.set(4);
+  });
+  expect(listener).toBeCalledTimes(1);
+  expect(listener).toBeCalledWith([3, 4]);
+});
+
+test("should not call the listeners that are removed before the batch finished", () => {
+  const count = signal(0);
+  const listener = jest.fn();
+  const App = ({ on }: Context) => {
+    on(count, listener);
+    return html`<div></div>`;
+  };
+  const app = render(container, App);
+  listener.mockClear();
+  batch(() => {
+    count.set(1);
+    app.unmount();
+  });
+  expect(listener).not.toBeCalled();
+});
+
+test("should call all pending listeners even if one of them failed", () => {
+  const a = signal(0);
+  const b = signal(0);
+  const listener = jest.fn();
+  a.on(() => {
+    throw new Error("failed");
+  });
+  b.on(listener);
+  expect(() =>
+    batch(() => {
+      a.set(1);
+      b.set(1);
+    })
+  ).toThrow("failed");
+  expect(listener).toBeCalledWith(1);
+});
+
+test("should not apply scheduled updates to the unmounted block", () => {
+  const count = signal(1);
+  const App = ({ on }: Context) => html`<h1 ${on(count).text()}></h1>`;
+  const app = render(container, App);
+  const h1 = container.querySelector("h1")!;
+  setScheduler("microtask");
+  try {
+    count.set(2);
+    app.unmount();
+    flush();
+    expect(h1.textContent).toBe("1");
+  } finally {
+    setScheduler("sync");
+  }
+});
+
+test("should apply scheduled binding updates on flush", () => {
+  const count = signal(1);
+  const App = ({ on }: Context) => html`<h1 ${on(count).text()}></h1>`;
+  render(container, App);
+  setScheduler("microtask");
+  try {
+    count.set(2);
+    count.set(3);
+    expect(container.textContent).toBe("1");
+    flush();
+    expect(container.textContent).toBe("3");
+  } finally {
+    setScheduler("sync");
+  }
+});
+
+test("should apply all scheduled updates even if one of them failed", async () => {
+  const consoleError = jest
+    .spyOn(console, "error")
+    .mockImplementation(() => {});
+  const count = signal(1);
+  const App = ({ on }: Context) => html`<div>
+    <h1
+      ${on(count).text((value) => {
+        if (value > 1) throw new Error("failed");
+        return value;
+      })}
+    ></h1>
+    <h2 ${on(count).text()}></h2>
+  </div>`;
+  render(container, App);
+  const h2 = container.querySelector("h2")!;
+  setScheduler("microtask");
+  try {
+    count.set(2);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(h2.textContent).toBe("2");
+    expect(consoleError).toBeCalledWith(new Error("failed"));
+  } finally {
+    setScheduler("sync");
+    consoleError.mockRestore();
+  }
+});
+
+test("should render block to string", () => {
+  const Item = (_: Context, text: string) => html`<li>${text}</li>`;
+  const Header = ({ ref }: Context, title: string) =>
+    html`<h1 ${ref({ text: title, class: { active: true } })}></h1>`;
+  const effect = jest.fn();
+  const App = ({ ref, list, on, effect: useEffect }: Context) => {
+    const visible = signal(false);
+    useEffect(effect);
+    return html`<div>
+      ${ref(Header, "<Title>")}
+      <ul>
+        ${list(Item, ["A", "B"])}
+      </ul>
+      <p ${on(visible).show()}>Hidden</p>
+      <input
+        ${ref({ value: "a&b", disabled: true, style: { color: "red" } })}
+      />
+    </div>`;
+  };
+  const result = renderToString(App);
+  expect(result).toContain(
+    '<h1 data-ref-0 data-ref="root-0" class="active">&lt;Title&gt;</h1>'
+  );
+  expect(result).toContain(
+    '<li data-ref="root-1-0">A</li><li data-ref="root-1-1">B</li><!--root-1-->'
+  );
+  expect(result).not.toContain("Hidden");
+  expect(result).toContain('value="a&amp;b" disabled style="color: red"');
+  expect(effect).not.toBeCalled();
+});
+
+test("should render the selected options of select models to string", () => {
+  const choice = signal("b");
+  const choices = signal(["a", "c"]);
+  const App = ({ on }: Context) =>
+    html`<div>
+      <select ${on(choice).model()}>
+        <option value="a">A</option>
+        <option value="b">B</option>
+      </select>
+      <select multiple ${on(choices).model<HTMLSelectElement>()}>
+        <option>a</option>
+        <option>b</option>
+        <option>c</option>
+      </select>
+    </div>`;
+  container.innerHTML = renderToString(App);
+  const [single, multiple] = Array.from(container.querySelectorAll("select"));
+  expect(single.hasAttribute("value")).toBe(false);
+  expect(single.value).toBe("b");
+  expect(
+    Array.from(multiple.selectedOptions).map((option) => option.value)
+  ).toEqual(["a", "c"]);
+});
+
+test("should hydrate server-rendered markup", () => {
+  const count = signal(1);
+  const onClick = jest.fn();
+  const Item = (_: Context, text: string) => html`<li>${text}</li>`;
+  let items: List<any, string>;
+  const App = ({ ref, list, on }: Context) => {
+    items = list(Item, ["A", "B"]);
+    return html`<div>
+      <button ${ref({ onclick: onClick })}>Click</button>
+      <span ${on(count).text()}></span>
+      <p ${on(count).show((x) => x > 1)}>More</p>
+      <ul>
+        ${items}
+      </ul>
+    </div>`;
+  };
+  container.innerHTML = renderToString(App);
+  const button = container.querySelector("button")!;
+  const firstItem = container.querySelector("li")!;
+  hydrate(container, App);
+  expect(container.querySelector("button")).toBe(button);
+  expect(container.querySelector("li")).toBe(firstItem);
+  button.click();
+  expect(onClick).toBeCalled();
+  expect(container.querySelector("p")).toBeNull();
+  count.set(2);
+  expect(container.querySelector("span")!.textContent).toBe("2");
+  expect(container.querySelector("p")!.textContent).toBe("More");
+  items!.push("C");
+  expect(container.querySelector("ul")!.textContent!.trim()).toBe("ABC");
+});
+
+test("should hydrate the loading content of async blocks", async () => {
+  const Async = async (_: Context, text: string) => html`<b>${text}</b>`;
+  const App = ({ ref }: Context) =>
+    html`<div>
+      ${ref(Async, "A", { loading: "<i>Loading</i>" })}
+      ${ref(Async, "B", { loading: "<i>Loading</i><i>...</i>" })}
+    </div>`;
+  container.innerHTML = renderToString(App);
+  const loading = container.querySelector("i")!;
+  hydrate(container, App);
+  expect(container.querySelector("i")).toBe(loading);
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("LoadingLoading...");
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("AB");
+});
+
+test("should handle the errors of hydrated app with root error handler", () => {
+  const count = signal(1);
+  const onError = jest.fn();
+  const Child = ({ on }: Context) => {
+    on(count, (value) => {
+      if (value > 1) throw new Error("Invalid value");
+    });
+    return html`<b>Child</b>`;
+  };
+  const App = ({ ref }: Context) => html`<div>${ref(Child)}</div>`;
+  container.innerHTML = renderToString(App);
+  const app = hydrate(container, App, undefined, { onError });
+  count.set(2);
+  expect(onError).toBeCalledWith(new Error("Invalid value"));
+  // the app is re-rendered with the same error handler
+  app.update(undefined);
+  expect(onError).toBeCalledTimes(2);
+  app.unmount();
+});
+
+test("should hydrate fragment blocks and toggled templates", () => {
+  const visible = signal(true);
+  const hidden = signal(false);
+  const count = signal(1);
+  const Item = (_: Context, name: string) =>
+    html`<dt>${name}</dt>
+      <dd>${name.toUpperCase()}</dd>`;
+  // the ref attributes of the fragment are the same as the parent ones
+  const Summary = ({ on }: Context) =>
+    html`<b ${on(count).text((x) => x * 10)}></b>
+      <em ${on(count).text()}></em> items`;
+  let items: List<Controller, string>;
+  const App = ({ ref, list, on }: Context) => {
+    const summary = ref(Summary);
+    const total = on(count).text();
+    items = list(Item, ["a", "b"]);
+    return html`<div>
+      <p>${summary}</p>
+      <span ${total}></span>
+      <dl>${items}</dl>
+      <template ${on(visible).show()}
+        ><i ${on(count).text()}></i> shown</template
+      >
+      <template ${on(hidden).show()}
+        ><u ${on(count).text()}></u> hidden</template
+      >
+    </div>`;
+  };
+  container.innerHTML = renderToString(App);
+  const firstItem = container.querySelector("dt");
+  const shown = container.querySelector("i")!;
+  hydrate(container, App);
+  expect(container.querySelector("dt")).toBe(firstItem);
+  expect(container.querySelector("i")).toBe(shown);
+  expect(container.querySelector("u")).toBeNull();
+  count.set(2);
+  expect(container.querySelector("p")!.textContent!.replace(/\s+/g, "")).toBe(
+    "202items"
+  );
+  expect(container.querySelector("span")!.textContent).toBe("2");
+  expect(shown.textContent).toBe("2");
+  hidden.set(true);
+  expect(container.querySelector("u")!.textContent).toBe("2");
+  visible.set(false);
+  expect(container.querySelector("i")).toBeNull();
+  items!.push("c");
+  expect(container.querySelector("dl")!.textContent!.replace(/\s+/g, "")).toBe(
+    "aAbBcC"
+  );
+});
+
+test("should hydrate the root fragment block", () => {
+  const count = signal(1);
+  const App = ({ on }: Context) =>
+    html`<h1 ${on(count).text()}></h1>
+      <p>Count</p>`;
+  container.innerHTML = renderToString(App);
+  const h1 = container.querySelector("h1");
+  hydrate(container, App);
+  count.set(2);
+  expect(container.querySelector("h1")).toBe(h1);
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("2Count");
+});
+
+test("should throw an error if the rendered markup does not match", () => {
+  const App = ({ ref }: Context) => html`<div><h1 ${ref()}></h1></div>`;
+  container.innerHTML = renderToString(App).replace(/h1/g, "h2");
+  expect(() => hydrate(container, App)).toThrow(/Hydration mismatch/);
+});
+
+test("should mount the blocks that share the same template", () => {
+  const Row = ({ ref }: Context, index: number) => {
+    const textRef = ref({ text: index });
+    return html`<div>
+      <span ${textRef}></span><b ${ref({ text: index * 2 })}></b>
+    </div>`;
+  };
+  const Table = ({ ref, list }: Context) =>
+    html`<div>
+      <p ${ref({ text: "rows" })}></p>
+      ${list(Row, [1, 2, 3])}
+    </div>`;
+  const App = ({ ref }: Context) => html`<div>${ref(Table)}</div>`;
+  render(container, App);
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("rows122436");
+});
+
+test("should parse the template once per block builder", () => {
+  const setInnerHTML = jest.spyOn(Element.prototype, "innerHTML", "set");
+  const getParseCount = (template: string) =>
+    setInnerHTML.mock.calls.filter(([value]) => value === template).length;
+  try {
+    const Row = (_: Context, index: number) => html`<p>row ${index}</p>`;
+    let rows: List<any, number>;
+    const App = ({ list }: Context) => {
+      rows = list(Row, [0, 0, 0]);
+      return html`<div>${rows}</div>`;
+    };
+    render(container, App);
+    rows!.push(0);
+    expect(getParseCount("<p>row 0</p>")).toBe(1);
+    // the oldest template is removed once the cache is full (100 templates)
+    for (let index = 1; index <= 100; index++) rows!.push(index);
+    rows!.push(100);
+    expect(getParseCount("<p>row 100</p>")).toBe(1);
+    rows!.push(0);
+    expect(getParseCount("<p>row 0</p>")).toBe(2);
+  } finally {
+    setInnerHTML.mockRestore();
+  }
+});
+
+test("should inject the value that is provided by ancestor blocks", () => {
+  const ThemeKey = createKey<string>("theme");
+  const UserKey = createKey<string>("user");
+  const Item = ({ inject }: Context) =>
+    html`<span>${inject(ThemeKey)}-${inject(UserKey, "guest")}</span>`;
+  const Panel = ({ list }: Context) => html`<div>${list(Item, 2)}</div>`;
+  const App = ({ ref, provide }: Context) => {
+    provide(ThemeKey, "dark");
+    return html`<div>${ref(Panel)}</div>`;
+  };
+  render(container, App);
+  expect(container.textContent).toBe("dark-guestdark-guest");
+  expect(() => render(container, Item)).toThrow(/theme/);
+});
+
+test("should render fallback template if descendant block failed", () => {
+  const Broken = ({ effect }: Context) => {
+    effect(() => {
+      throw new Error("Broken");
+    });
+    return html`<b>Broken</b>`;
+  };
+  const Child = ({ ref }: Context) => html`<div>${ref(Broken)}</div>`;
+  const App = ({ ref, catch: handleError }: Context) => {
+    handleError((error) => html`<i>${(error as Error).message} Error</i>`);
+    return html`<div>${ref(Child)}</div>`;
+  };
+  render(container, App);
+  expect(container.textContent).toBe("Broken Error");
+});
+
+test("should handle listener errors with root error handler", () => {
+  const count = signal(1);
+  const onError = jest.fn();
+  const Child = ({ on }: Context) => {
+    on(count, (value) => {
+      if (value > 1) throw new Error("Invalid value");
+    });
+    return html`<b>Child</b>`;
+  };
+  const App = ({ ref }: Context) => html`<div>${ref(Child)}</div>`;
+  render(container, App, undefined, { onError });
+  expect(container.textContent).toBe("Child");
+  count.set(2);
+  expect(onError).toBeCalledWith(new Error("Invalid value"));
+  expect(container.textContent).toBe("");
+  // the failed block is unmounted, its listeners are removed
+  count.set(3);
+  expect(onError).toBeCalledTimes(1);
+});
+
+test("should handle scheduled binding errors with root error handler", () => {
+  const count = signal(1);
+  const onError = jest.fn();
+  const Child = ({ on }: Context) =>
+    html`<b
+      ${on(count).text((value) => {
+        if (value > 1) throw new Error("Invalid value");
+        return "Child";
+      })}
+    ></b>`;
+  const App = ({ ref }: Context) => html`<div>${ref(Child)}</div>`;
+  render(container, App, undefined, { onError });
+  setScheduler("microtask");
+  try {
+    count.set(2);
+    flush();
+    expect(onError).toBeCalledWith(new Error("Invalid value"));
+    expect(container.textContent).toBe("");
+  } finally {
+    setScheduler("sync");
+  }
+});
+
+test("should render loading template while async block is pending", async () => {
+  const Async = async (_: Context, name: string) => {
+    await Promise.resolve();
+    return html`<b>Hello ${name}</b>`;
+  };
+  const Lazy = lazy(async () => ({
+    default: () => html`<i>Lazy</i>`,
+  }));
+  const App = ({ ref }: Context) =>
+    html`<div>
+      ${ref(Async, "World", { loading: "<span>Loading</span>" })}
+      ${ref(Lazy, undefined, { loading: "<span>Loading</span>" })}
+    </div>`;
+  render(container, App);
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("LoadingLoading");
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(container.textContent!.replace(/\s+/g, " ").trim()).toBe(
+    "Hello World Lazy"
+  );
+});
+
+test("should pass the data that looks like the ref options to the block", async () => {
+  const Alert = lazy(
+    async () => (_: Context, data: { error: string }) =>
+      html`<b>${data.error}</b>`
+  );
+  const App = ({ ref }: Context) =>
+    html`<div>${ref(Alert, { error: "Failed" })}</div>`;
+  render(container, App);
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(container.textContent).toBe("Failed");
+});
+
+test("should discard async block result if the parent is unmounted", async () => {
+  const visible = signal(true);
+  const effect = jest.fn();
+  const Async = async ({ effect: useEffect }: Context) => {
+    await Promise.resolve();
+    useEffect(effect);
+    return html`<b>Loaded</b>`;
+  };
+  const Failed = () => Promise.reject(new Error("Failed"));
+  const App = ({ ref, list }: Context) => {
+    const items = list(Async, 1);
+    visible.on(() => items.remove(0));
+    return html`<div>
+      ${items}${ref(Failed, undefined, {
+        error: (e: any) => `<p>${e.message}</p>`,
+      })}
+    </div>`;
+  };
+  render(container, App);
+  visible.set(false);
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(effect).not.toBeCalled();
+  expect(container.textContent!.trim()).toBe("Failed");
+});
+
+test("should report the async block error that is not handled", async () => {
+  const consoleError = jest
+    .spyOn(console, "error")
+    .mockImplementation(() => {});
+  try {
+    const Broken = lazy<Controller>(() => Promise.reject(new Error("boom")));
+    const App = ({ ref }: Context) => html`<div>${ref(Broken)}</div>`;
+    render(container, App);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(consoleError).toBeCalledWith(new Error("boom"));
+    expect(container.textContent).toBe("");
+  } finally {
+    consoleError.mockRestore();
+  }
+});
+
+test("should keep form elements and signals in sync", () => {
+  const name = signal("John");
+  const age = signal(20);
+  const tags = signal(["a"]);
+  const App = ({ on }: Context) => html`<form>
+    <input ${on(name).model()} />
+    <input ${on(age).model({ type: "number", lazy: true })} />
+    <input type="checkbox" value="a" ${on(tags).model()} />
+    <input type="checkbox" value="b" ${on(tags).model()} />
+  </form>`;
+  render(container, App);
+  const [nameInput, ageInput, checkboxA, checkboxB] = Array.from(
+    container.querySelectorAll("input")
+  );
+  expect(nameInput.value).toBe("John");
+  expect(checkboxA.checked).toBe(true);
+  nameInput.value = "Jane";
+  nameInput.dispatchEvent(new Event("input"));
+  expect(name.state).toBe("Jane");
+  ageInput.value = "30";
+  ageInput.dispatchEvent(new Event("input"));
+  expect(age.state).toBe(20);
+  ageInput.dispatchEvent(new Event("change"));
+  expect(age.state).toBe(30);
+  checkboxB.click();
+  expect(tags.state).toEqual(["a", "b"]);
+  name.set("Tom");
+  expect(nameInput.value).toBe("Tom");
+});
+
+test("should add multiple event listeners and remove them once unmounted", () => {
+  const visible = signal(true);
+  const first = jest.fn();
+  const second = jest.fn();
+  const third = jest.fn();
+  let button: HTMLElement;
+  const Child = ({ ref }: Context) => {
+    const buttonRef = ref({
+      onclick: first,
+      on: { click: [{ listener: second, options: { once: true } }] },
+    }).listen("click", third);
+    return html`<button ${buttonRef}>Click</button>`;
+  };
+  const App = ({ ref, on }: Context) => {
+    const child = ref(Child);
+    on(visible, (value) => {
+      if (!value) child.unmount();
+    });
+    return html`<div>${child}</div>`;
+  };
+  render(container, App);
+  button = container.querySelector("button")!;
+  button.click();
+  button.click();
+  expect(first).toBeCalledTimes(2);
+  expect(second).toBeCalledTimes(1);
+  expect(third).toBeCalledTimes(2);
+  visible.set(false);
+  button.click();
+  expect(first).toBeCalledTimes(2);
+  expect(third).toBeCalledTimes(2);
+});
+
+test("should dispatch delegated events to the list item", () => {
+  const removed: [string, number | undefined][] = [];
+  let rows: List<{ name: string }, string>;
+  const Row = ({ ref }: Context, name: string) => {
+    const buttonRef = ref({
+      onclick: (_: Event, item?: ListItem) =>
+        removed.push([item?.controller.name, item?.index]),
+    });
+    return {
+      name,
+      template: html`<li><button ${buttonRef}>${name}</button></li>`,
+    };
+  };
+  const App = ({ list }: Context) => {
+    rows = list(Row, ["a", "b", "c"], { delegate: true });
+    return html`<ul>
+      ${rows}
+    </ul>`;
+  };
+  const addEventListener = jest.spyOn(
+    HTMLElement.prototype,
+    "addEventListener"
+  );
+  render(container, App);
+  rows!.push("d");
+  rows!.remove(0);
+  // the click listener is added to the list container only
+  expect(
+    addEventListener.mock.calls.filter(([type]) => type === "click")
+  ).toHaveLength(1);
+  addEventListener.mockRestore();
+  container.querySelectorAll("button")[1].click();
+  container.querySelectorAll("button")[2].click();
+  expect(removed).toEqual([
+    ["c", 1],
+    ["d", 2],
+  ]);
+});
+
+test("should pass the element that the delegated handler is registered on", () => {
+  const targets: [EventTarget | null, Element | undefined][] = [];
+  const Row = ({ ref }: Context, name: string) =>
+    html`<li
+      ${ref({
+        onclick: (e: Event, item?: ListItem) =>
+          targets.push([e.currentTarget, item?.element]),
+      })}
+    >
+      <b>${name}</b>
+    </li>`;
+  const App = ({ list }: Context) =>
+    html`<ul>
+      ${list(Row, ["a"], { delegate: true })}
+    </ul>`;
+  render(container, App);
+  container.querySelector("b")!.click();
+  expect(targets).toEqual([
+    [container.querySelector("ul"), container.querySelector("li")],
+  ]);
+});
+
+test("should dispatch delegated events to the list that renders the item only", () => {
+  const clicked: [string, number | undefined][] = [];
+  const Row = ({ ref }: Context, name: string) => ({
+    name,
+    template: html`<li
+      ${ref({
+        onclick: (_: Event, item?: ListItem) =>
+          clicked.push([item?.controller.name, item?.index]),
+      })}
+    >
+      ${name}
+    </li>`,
+  });
+  const Tag = ({ ref }: Context, name: string) =>
+    html`<li
+      ${ref({
+        onclick: (_: Event, item?: ListItem) =>
+          clicked.push([name, item?.index]),
+      })}
+    >
+      ${name}
+    </li>`;
+  let second: List<{ name: string }, string>;
+  const App = ({ list, ref }: Context) => {
+    second = list(Row, ["c"], { delegate: true });
+    return html`<ul>
+      ${list(Row, ["a", "b"], { delegate: true })} ${second}
+      <li
+        ${ref({
+          onclick: (_: Event, item?: ListItem) =>
+            clicked.push(["footer", item?.index]),
+        })}
+      >
+        footer
+      </li>
+      ${list(Tag, ["tag"])}
+    </ul>`;
+  };
+  render(container, App);
+  const click = (text: string) =>
+    Array.from(container.querySelectorAll("li"))
+      .find((x) => x.textContent!.trim() === text)!
+      .click();
+  click("b");
+  click("c");
+  click("footer");
+  click("tag");
+  expect(clicked).toEqual([
+    ["b", 1],
+    ["c", 0],
+    ["footer", undefined],
+    ["tag", undefined],
+  ]);
+  // the items of other list are still dispatched once the list changed
+  clicked.length = 0;
+  second!.remove(0);
+  click("a");
+  expect(clicked).toEqual([["a", 0]]);
+});
+
+test("should keep leaving element until its transition ended", async () => {
+  const visible = signal(true);
+  let items: List<any, string>;
+  const Item = (_: Context, name: string) => html`<li>${name}</li>`;
+  const App = ({ list, on }: Context) => {
+    items = list(Item, ["a", "b"], { transition: "fade" });
+    return html`<div>
+      <p ${on(visible).show({ transition: { name: "fade", duration: 0 } })}></p>
+      <ul>
+        ${items}
+      </ul>
+    </div>`;
+  };
+  render(container, App);
+  const p = container.querySelector("p")!;
+  visible.set(false);
+  items!.remove(0);
+  expect(p.isConnected).toBe(true);
+  expect(p.className).toBe("fade-leave-from fade-leave-active");
+  expect(container.querySelectorAll("li").length).toBe(2);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(p.isConnected).toBe(false);
+  expect(container.querySelectorAll("li").length).toBe(1);
+  visible.set(true);
+  expect(p.className).toBe("fade-enter-from fade-enter-active");
+});
+
+test("should insert and remove elements immediately if transitions are disabled", () => {
+  setTransitions(false);
+  try {
+    const visible = signal(true);
+    const App = ({ on }: Context) => html`<div>
+      <p ${on(visible).show({ transition: "fade" })}></p>
+    </div>`;
+    render(container, App);
+    visible.set(false);
+    expect(container.querySelector("p")).toBeNull();
+  } finally {
+    setTransitions(true);
+  }
+});
+
+test("should move list items to the new positions", () => {
+  let items: List<{ name: string }, string>;
+  const Item = (_: Context, name: string) => ({
+    name,
+    template: html`<li>${name}</li>`,
+  });
+  const App = ({ list }: Context) => {
+    items = list(Item, ["a", "b", "c", "d"], { transition: "move" });
+    return html`<ul>
+      ${items}
+    </ul>`;
+  };
+  render(container, App);
+  const getOrder = () => ({
+    dom: container.textContent!.replace(/\s+/g, ""),
+    items: Array.from(
+      { length: items!.size },
+      (_, i) => items!.get(i)!.name
+    ).join(""),
+  });
+  items!.move(0, 2);
+  expect(getOrder()).toEqual({ dom: "bcad", items: "bcad" });
+  items!.move(3, 0);
+  expect(getOrder()).toEqual({ dom: "dbca", items: "dbca" });
+  items!.move(1, 3);
+  expect(getOrder()).toEqual({ dom: "dcab", items: "dcab" });
+  items!.sort((a, b) => a.name.localeCompare(b.name));
+  expect(getOrder()).toEqual({ dom: "abcd", items: "abcd" });
+  items!.swap(0, 3);
+  expect(getOrder()).toEqual({ dom: "dbca", items: "dbca" });
+  items!.swap(2, 1);
+  expect(getOrder()).toEqual({ dom: "dcba", items: "dcba" });
+  // the reused items are reordered from their current positions
+  items!.assign(["c", "a", "b", "d"]);
+  expect(getOrder()).toEqual({ dom: "cabd", items: "cabd" });
+});
+
+test("should mount portal block into target element and unmount it with its owner", () => {
+  const ThemeKey = createKey<string>("theme");
+  const target = document.createElement("div");
+  target.id = "modals";
+  document.body.appendChild(target);
+  const Modal = ({ inject }: Context, title: string) =>
+    html`<div class="modal">${title}-${inject(ThemeKey)}</div>`;
+  const Page = ({ portal, provide }: Context) => {
+    provide(ThemeKey, "dark");
+    portal("#modals", Modal, "Hello");
+    return {
+      template: html`<div>Page</div>`,
+      // the portals that are opened after mounting
+      open: (title: string) => portal(target, Modal, title),
+    };
+  };
+  try {
+    const owner = document.createElement("div");
+    const app = render(owner, Page);
+    expect(target.textContent).toBe("Hello-dark");
+    expect(owner.querySelector(".modal")).toBeNull();
+    const { open } = app.controller;
+    open("World");
+    expect(target.textContent).toBe("Hello-darkWorld-dark");
+    app.unmount();
+    expect(target.innerHTML).toBe("");
+    expect(() => open("Again")).toThrow(
+      "Cannot use portal after block unmounting"
+    );
+    expect(target.innerHTML).toBe("");
+  } finally {
+    target.remove();
+  }
+});
+
+test("should render the block of the current route", () => {
+  const unmounted: string[] = [];
+  const Home = ({ effect }: Context) => {
+    effect(() => () => unmounted.push("home"));
+    return html`<h1>Home</h1>`;
+  };
+  const User = (_: Context, { params, query }: RouteMatch) =>
+    html`<h1>User ${params.id} ${query.tab}</h1>`;
+  const NotFound = () => html`<h1>Not found</h1>`;
+  let navigate: (path: string) => void;
+  let back: VoidFunction;
+  const App = ({ use, outlet }: Context) => {
+    ({ navigate, back } = use(
+      router({
+        mode: "memory",
+        routes: { "/": Home, "/users/:id": User, "*": NotFound },
+      })
+    ));
+    return html`<main>${outlet()}</main>`;
+  };
+  render(container, App);
+  expect(container.textContent).toBe("Home");
+  navigate!("/users/1?tab=info");
+  expect(unmounted).toEqual(["home"]);
+  expect(container.textContent).toBe("User 1 info");
+  // the malformed param is kept as it is
+  navigate!("/users/%E0%A4%A");
+  expect(container.textContent).toBe("User %E0%A4%A undefined");
+  navigate!("/about");
+  expect(container.textContent).toBe("Not found");
+  back!();
+  back!();
+  back!();
+  expect(container.textContent).toBe("Home");
+});
+
+test("should sync the route with the browser history", () => {
+  const Home = () => html`<h1>Home</h1>`;
+  const About = () => html`<h1>About</h1>`;
+  const App = ({ use, outlet, ref }: Context) => {
+    const { navigate } = use(
+      router({ routes: { "/": Home, "/about": About } })
+    );
+    return html`<main>
+      <button ${ref({ onclick: () => navigate("/about") })}></button>
+      ${outlet()}
+    </main>`;
+  };
+  history.replaceState(null, "", "/");
+  render(container, App);
+  container.querySelector("button")!.click();
+  expect(location.pathname).toBe("/about");
+  expect(container.textContent!.trim()).toBe("About");
+  history.replaceState(null, "", "/");
+  window.dispatchEvent(new PopStateEvent("popstate"));
+  expect(container.textContent!.trim()).toBe("Home");
+});
+
+test("should unmount the previous app of the container", () => {
+  const count = signal(0);
+  const disposed: string[] = [];
+  const Counter = ({ on, effect }: Context, name: string) => {
+    effect(() => () => disposed.push(name));
+    return {
+      name,
+      template: html`<p>${name}: <span ${on(count).text()}></span></p>`,
+    };
+  };
+  const first = render(container, Counter, "first");
+  expect(first.controller.name).toBe("first");
+  const second = render(container, Counter, "second");
+  expect(disposed).toEqual(["first"]);
+  second.update("third");
+  expect(disposed).toEqual(["first", "second"]);
+  expect(second.controller.name).toBe("third");
+  count.set(1);
+  expect(container.textContent).toBe("third: 1");
+  second.unmount();
+  expect(disposed).toEqual(["first", "second", "third"]);
+  expect(container.innerHTML).toBe("");
+  expect(() => second.update("fourth")).toThrow(/unmounted/);
+});
+
+test("should render fragment blocks in the list", () => {
+  let items: List<any, string>;
+  const Item = (_: Context, name: string) =>
+    html`<dt>${name}</dt>
+      <dd>${name.toUpperCase()}</dd>`;
+  const App = ({ list }: Context) => {
+    items = list(Item, ["a", "b", "c"]);
+    return html`<dl>${items}</dl>`;
+  };
+  render(container, App);
+  const getText = () =>
+    Array.from(container.querySelectorAll("dt,dd"))
+      .map((x) => x.textContent)
+      .join("");
+  expect(getText()).toBe("aAbBcC");
+  items!.swap(0, 1);
+  expect(getText()).toBe("bBaAcC");
+  items!.remove(1);
+  items!.unshift("d");
+  expect(getText()).toBe("dDbBcC");
+  items!.assign(["c", "e", "d"]);
+  expect(getText()).toBe("cCeEdD");
+});
+
+test("should toggle the content of template element", () => {
+  const visible = signal(false);
+  const count = signal(1);
+  const App = ({ on }: Context) => html`<div>
+    <template ${on(visible).show()}>
+      Count: <b ${on(count).text()}></b>
+    </template>
+  </div>`;
+  render(container, App);
+  expect(container.textContent!.trim()).toBe("");
+  visible.set(true);
+  count.set(2);
+  expect(container.textContent!.replace(/\s+/g, "")).toBe("Count:2");
+  visible.set(false);
+  expect(container.querySelector("b")).toBeNull();
+});
+
+test("should render visible items of virtual list only", () => {
+  let created = 0;
+  let rows: VirtualList<number>;
+  const Row = ({ ref }: Context, value: number) => {
+    const rowRef = ref<HTMLDivElement>();
+    created++;
+    return {
+      template: html`<div ${rowRef}>${value}</div>`,
+      update(next: number) {
+        rowRef().textContent = String(next);
+      },
+    };
+  };
+  const App = ({ virtualList }: Context) => {
+    rows = virtualList(Row, {
+      data: Array.from({ length: 10000 }, (_, index) => index),
+      itemHeight: 20,
+      overscan: 2,
+    });
+    return html`<div ${rows}></div>`;
+  };
+  const clientHeight = jest
+    .spyOn(HTMLElement.prototype, "clientHeight", "get")
+    .mockReturnValue(100);
+  render(container, App);
+  const getVisibleRows = () =>
+    Array.from(container.querySelectorAll<HTMLElement>("[style*=top]"))
+      .filter((row) => row.style.display !== "none")
+      .map((row) => Number(row.textContent));
+  expect(getVisibleRows()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  rows!.scrollToIndex(5000);
+  expect(getVisibleRows().sort((a, b) => a - b)).toEqual([
+    4998, 4999, 5000, 5001, 5002, 5003, 5004, 5005, 5006, 5007,
+  ]);
+  // the blocks are recycled
+  expect(created).toBe(10);
+  rows!.remove(0, 4999);
+  expect(rows!.size).toBe(5001);
+  expect(rows!.get(0)).toBe(4999);
+  clientHeight.mockRestore();
+});
+
+test("should persist signal state to the storage", () => {
+  jest.useFakeTimers();
+  try {
+    const storage = createMemoryStorage();
+    storage.setItem("theme", JSON.stringify({ state: "dark", version: 0 }));
+    const theme = signal("light", { persist: { key: "theme", storage } });
+    expect(theme.state).toBe("dark");
+    theme.set("blue");
+    theme.set("green");
+    expect(storage.getItem("theme")).toContain("dark");
+    jest.runAllTimers();
+    expect(JSON.parse(storage.getItem("theme")!).state).toBe("green");
+    // the changes of other tabs
+    const otherTab = signal("light", { persist: { key: "theme", storage } });
+    otherTab.set("red");
+    jest.runAllTimers();
+    expect(theme.state).toBe("red");
+    // the disposed signal is not synced anymore
+    theme.dispose();
+    otherTab.set("yellow");
+    theme.set("white");
+    jest.runAllTimers();
+    expect(theme.state).toBe("white");
+    expect(JSON.parse(storage.getItem("theme")!).state).toBe("yellow");
+    // the pending write is cancelled once the signal is disposed
+    otherTab.set("pink");
+    otherTab.dispose();
+    jest.runAllTimers();
+    expect(JSON.parse(storage.getItem("theme")!).state).toBe("yellow");
+    // the signals that are not persisted have nothing to dispose
+    expect("dispose" in signal("light")).toBe(false);
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+test("should use initial state if the persisted state cannot be restored", () => {
+  const storage = createMemoryStorage();
+  storage.setItem("theme", "{");
+  const onError = jest.fn();
+  const theme = signal("light", {
+    persist: { key: "theme", storage, onError },
+  });
+  expect(theme.state).toBe("light");
+  expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+});
+
+test("should migrate the persisted state of older version", () => {
+  const storage = createMemoryStorage();
+  storage.setItem("filters", JSON.stringify({ state: "done", version: 1 }));
+  const filters = signal(
+    { status: "all" },
+    {
+      persist: {
+        key: "filters",
+        storage,
+        version: 2,
+        migrate: (state: string) => ({ status: state }),
+      },
+    }
+  );
+  expect(filters.state).toEqual({ status: "done" });
+});
+
+test("should refetch resource once dependencies changed and ignore stale responses", async () => {
+  const userId = signal(1);
+  const resolvers: Record<number, (name: string) => void> = {};
+  const aborted: number[] = [];
+  const user = resource(
+    ({ signal, deps: [id] }) => {
+      signal?.addEventListener("abort", () => aborted.push(id));
+      return new Promise<string>((resolve) => (resolvers[id] = resolve));
+    },
+    { deps: [userId] }
+  );
+  const App = ({ on }: Context) =>
+    html`<p ${on(user).text((x) => `${x.status}:${x.data ?? ""}`)}></p>`;
+  render(container, App);
+  expect(container.textContent).toBe("loading:");
+  userId.set(2);
+  expect(aborted).toEqual([1]);
+  resolvers[2]("Jane");
+  await Promise.resolve();
+  resolvers[1]("John");
+  await Promise.resolve();
+  expect(container.textContent).toBe("success:Jane");
+  user.mutate((prev) => prev + "!");
+  expect(container.textContent).toBe("success:Jane!");
+  user.refetch();
+  user.dispose();
+  expect(aborted).toEqual([1, 2]);
+  userId.set(3);
+  expect(resolvers[3]).toBeUndefined();
+});
+
+test("should keep resource data if refetching failed", async () => {
+  let fail = false;
+  const todos = resource(async () => {
+    if (fail) throw new Error("Network error");
+    return ["a"];
+  });
+  await Promise.resolve();
+  expect(todos.state.data).toEqual(["a"]);
+  fail = true;
+  await todos.refetch();
+  expect(todos.state.status).toBe("error");
+  expect(todos.state.data).toEqual(["a"]);
+  expect(todos.state.error).toEqual(new Error("Network error"));
+});
+
+test("should not notify listeners if the next state equals current state", () => {
+  const filters = signal({ status: "all" }, { equals: shallowEqual });
+  const listener = jest.fn();
+  filters.on(listener);
+  filters.set({ status: "all" });
+  expect(listener).not.toBeCalled();
+  filters.set({ status: "done" });
+  expect(listener).toBeCalledTimes(1);
+});
+
+test("should notify selected signal listeners once the selected value changed", () => {
+  const store = signal({ user: { name: "John" }, count: 0 });
+  const userName = store.select((state) => state.user.name);
+  const renders: string[] = [];
+  const App = ({ on }: Context) =>
+    html`<p
+      ${on(userName).text((name) => {
+        renders.push(name);
+        return name;
+      })}
+    ></p>`;
+  render(container, App);
+  store.set((prev) => ({ ...prev, count: prev.count + 1 }));
+  store.set((prev) => ({ ...prev, user: { name: "John" } }));
+  expect(renders).toEqual(["John"]);
+  store.set((prev) => ({ ...prev, user: { name: "Jane" } }));
+  expect(renders).toEqual(["John", "Jane"]);
+  expect(container.textContent).toBe("Jane");
+  const user = store.select((state) => state.user, shallowEqual);
+  const listener = jest.fn();
+  user.on(listener);
+  store.set((prev) => ({ ...prev, user: { name: "Jane" } }));
+  expect(listener).not.toBeCalled();
+});
+
+test("should undo and redo the signal changes", () => {
+  const count = withHistory(signal(0));
+  count.set(1);
+  count.set(2);
+  expect(count.canUndo.state).toBe(true);
+  expect(count.canRedo.state).toBe(false);
+  count.undo();
+  expect(count.state).toBe(1);
+  count.undo();
+  expect(count.state).toBe(0);
+  expect(count.canUndo.state).toBe(false);
+  count.redo();
+  expect(count.state).toBe(1);
+  expect(count.canRedo.state).toBe(true);
+  // the redo steps are discarded once the state changed
+  count.set(5);
+  expect(count.canRedo.state).toBe(false);
+  count.undo();
+  expect(count.state).toBe(1);
+  count.clear();
+  expect(count.canUndo.state).toBe(false);
+  expect(count.canRedo.state).toBe(false);
+  // the changes are not recorded once the history is disposed
+  count.dispose();
+  count.set(6);
+  expect(count.canUndo.state).toBe(false);
+  count.undo();
+  expect(count.state).toBe(6);
+});
+
+test("should stop syncing the persisted signal once its history is disposed", () => {
+  jest.useFakeTimers();
+  try {
+    const storage = createMemoryStorage();
+    const theme = withHistory(
+      signal("light", { persist: { key: "theme", storage } })
+    );
+    theme.set("dark");
+    theme.dispose();
+    jest.runAllTimers();
+    expect(storage.getItem("theme")).toBeNull();
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+test("should group the successive actions of reducer signal into one step", () => {
+  jest.useFakeTimers();
+  try {
+    const text = withHistory(
+      signal("", (state, char: string) => state + char),
+      { groupWithin: 100, limit: 2 }
+    );
+    text.emit("a");
+    text.emit("b");
+    jest.advanceTimersByTime(200);
+    text.emit("c");
+    expect(text.state).toBe("abc");
+    text.undo();
+    expect(text.state).toBe("ab");
+    text.undo();
+    expect(text.state).toBe("");
+    jest.advanceTimersByTime(200);
+    text.redo();
+    text.redo();
+    expect(text.state).toBe("abc");
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+test("should mount the block of custom element and map its attributes and props to signals", () => {
+  const Counter = (
+    { on }: Context,
+    {
+      initialCount,
+      label,
+    }: { initialCount: Signal<string>; label: Signal<string> }
+  ) => {
+    const count = signal(0);
+    return {
+      template: html`<p ${on(label).text()}></p>
+        <h1 ${on(initialCount).text()}></h1>
+        <h2 ${on(count).text()}></h2>`,
+      increase() {
+        count.set((prev) => prev + 1);
+      },
+    };
+  };
+  defineElement("test-counter", Counter, {
+    attributes: ["initial-count"],
+    props: ["label"],
+  });
+  const element = document.createElement("test-counter") as any;
+  element.setAttribute("initial-count", "5");
+  element.label = "Count";
+  container.appendChild(element);
+  expect(element.querySelector("p").textContent).toBe("Count");
+  expect(element.querySelector("h1").textContent).toBe("5");
+  element.setAttribute("initial-count", "6");
+  element.label = "Total";
+  element.increase();
+  expect(element.querySelector("p").textContent).toBe("Total");
+  expect(element.querySelector("h1").textContent).toBe("6");
+  expect(element.querySelector("h2").textContent).toBe("1");
+  element.remove();
+  expect(element.innerHTML).toBe("");
+  expect(element.increase).toBeUndefined();
+});
+
+test("should mount the block of custom element into its shadow root", () => {
+  defineElement("test-greeting", () => html`<p>Hello</p>`, { shadow: true });
+  const element = document.createElement("test-greeting");
+  container.appendChild(element);
+  expect(element.shadowRoot?.textContent).toBe("Hello");
+  expect(element.innerHTML).toBe("");
+});
+
+test("should scope the block styles and remove them once no block uses them", () => {
+  const styles = css`
+    & {
+      padding: 8px;
+    }
+    h1,
+    p > span {
+      color: red;
+    }
+    @media (min-width: 600px) {
+      h1 {
+        color: blue;
+      }
+    }
+  `;
+  const Title = ({ styles: use }: Context) => {
+    use(styles);
+    return html`<div class="title"><h1>Hello</h1></div>`;
+  };
+  let items: List<Controller, void>;
+  const App = ({ list }: Context) => {
+    items = list(Title, 2);
+    return html`<div>${items}</div>`;
+  };
+  expect(styles.text.replace(/\s+/g, "")).toBe(
+    `.${styles.scope}-root{padding:8px;}h1.${styles.scope},p>span.${styles.scope}{color:red;}@media(min-width:600px){h1.${styles.scope}{color:blue;}}`
+  );
+  const app = render(container, App);
+  const getStyles = () =>
+    document.head.querySelectorAll(`style[data-scope="${styles.scope}"]`);
+  expect(container.querySelectorAll(`.title.${styles.scope}-root`).length).toBe(
+    2
+  );
+  expect(container.querySelectorAll(`h1.${styles.scope}`).length).toBe(2);
+  expect(getStyles().length).toBe(1);
+  items!.remove(0);
+  expect(getStyles().length).toBe(1);
+  app.unmount();
+  expect(getStyles().length).toBe(0);
+});
+
+test("should not apply the scoped styles to the nested blocks", () => {
+  const styles = css`
+    p::before {
+      content: "*";
+    }
+  `;
+  const Child = () => html`<p>Child</p>`;
+  const Parent = ({ styles: use, ref }: Context) => {
+    use(styles);
+    return html`<div>
+      <p>Parent</p>
+      ${ref(Child)}
+    </div>`;
+  };
+  expect(styles.text.replace(/\s+/g, "")).toBe(
+    `p.${styles.scope}::before{content:"*";}`
+  );
+  render(container, Parent);
+  expect(
+    Array.from(container.querySelectorAll("p")).map((p) =>
+      p.classList.contains(styles.scope)
+    )
+  ).toEqual([true, false]);
+});
+
+test("should render the scoped styles to string", () => {
+  const styles = css`
+    h1 {
+      color: red;
+    }
+  `;
+  const App = ({ styles: use }: Context) => {
+    use(styles);
+    return html`<h1>Hello</h1>`;
+  };
+  expect(renderToString(App)).toBe(
+    `<style data-scope="${styles.scope}">${styles.text}</style>` +
+      `<h1 class="${styles.scope} ${styles.scope}-root" data-ref="root">Hello</h1>`
+  );
+});
+
+test("should reuse the server-rendered styles while hydrating", () => {
+  const styles = css`
+    h2 {
+      color: blue;
+    }
+  `;
+  const App = ({ styles: use }: Context) => {
+    use(styles);
+    return html`<h2>Hello</h2>`;
+  };
+  container.innerHTML = renderToString(App);
+  const app = hydrate(container, App);
+  const selector = `style[data-scope="${styles.scope}"]`;
+  expect(document.querySelectorAll(selector)).toHaveLength(1);
+  app.unmount();
+  expect(document.querySelectorAll(selector)).toHaveLength(0);
+});
+
+test("should render the slot templates with the bindings of parent block", () => {
+  const title = signal("Hello");
+  const onClick = jest.fn();
+  const Card = ({ slot }: Context) =>
+    html`<div>
+      <header>${slot("header")}</header>
+      <footer>${slot("footer", "<p>No footer</p>")}</footer>
+    </div>`;
+  const App = ({ ref, on }: Context) =>
+    html`<main>
+      ${ref(Card, undefined, {
+        slots: {
+          header: html`<h1 ${on(title).text()}></h1>
+            <button ${ref({ onclick: onClick })}>Close</button>`,
+        },
+      })}
+    </main>`;
+  const app = render(container, App);
+  expect(container.querySelector("header > h1")?.textContent).toBe("Hello");
+  expect(container.querySelector("footer")?.textContent).toBe("No footer");
+  title.set("World");
+  expect(container.querySelector("h1")?.textContent).toBe("World");
+  container.querySelector("button")?.click();
+  expect(onClick).toBeCalledTimes(1);
+  const h1 = container.querySelector("h1")!;
+  app.unmount();
+  title.set("Bye");
+  expect(h1.textContent).toBe("World");
+});
+
+test("should hydrate the slot templates", () => {
+  const title = signal("Hello");
+  const onClick = jest.fn();
+  const Card = ({ slot, on }: Context) =>
+    html`<div>
+      <header>${slot("header")}</header>
+      <p ${on(title).text()}></p>
+      <footer>${slot("footer", "<p>No footer</p>")}</footer>
+    </div>`;
+  const App = ({ ref, on }: Context) =>
+    html`<main>
+      ${ref(Card, undefined, {
+        slots: {
+          header: html`<h1 ${on(title).text()}></h1>
+            <button ${ref({ onclick: onClick })}>Close</button>`,
+        },
+      })}
+    </main>`;
+  container.innerHTML = renderToString(App);
+  const h1 = container.querySelector("h1");
+  hydrate(container, App);
+  expect(container.querySelector("h1")).toBe(h1);
+  title.set("World");
+  expect(container.querySelector("h1")?.textContent).toBe("World");
+  expect(container.querySelector("div > p")?.textContent).toBe("World");
+  expect(container.querySelector("footer")?.textContent).toBe("No footer");
+  container.querySelector("button")?.click();
+  expect(onClick).toBeCalledTimes(1);
+});
@@ -1,9 +1,23 @@
+import { createServerDocument } from "./serverDocument";
+
 export type Effect = (context: Context) => void | VoidFunction;
 
 export type ElementRef<T extends HTMLElement = HTMLElement> = Ref<() => T> & {
   style(value: ElementStyle): ElementRef<T>;
   class(value: ElementClass): ElementRef<T>;
   update(data: ElementData<T>): ElementRef<T>;
+  /**
+   * add an event listener to the ref element, the listener will be removed once the ref is unmounted.
+   * This method can be called before the ref is mounted
+   * @param type
+   * @param listener
+   * @param options
+   */
+  listen(
+    type: string,
+    listener: ElementEventListener,
+    options?: boolean | AddEventListenerOptions
+  ): ElementRef<T>;
 };
 
 export type Ref<A extends (...args: any[]) => any> = A & {
@@ -23,6 +37,27 @@ export type Toggle = {
   toString(): string;
 };
 
+export type TransitionOptions = {
+  /**
+   * the prefix of the transition classes:
+   * - {name}-enter-from, {name}-enter-active, {name}-enter-to: applied while the element is being inserted
+   * - {name}-leave-from, {name}-leave-active, {name}-leave-to: applied while the element is being removed
+   * - {name}-move: applied while the list item is being moved to its new position
+   */
+  name: string;
+  /**
+   * the max duration (ms) of the transition, it is computed from the element styles if not specified
+   */
+  duration?: number;
+};
+
+export type ToggleOptions = {
+  /**
+   * the transition name or the transition options that are used to show/hide the element
+   */
+  transition?: string | TransitionOptions;
+};
+
 export type List<C, D> = {
   readonly ref: Ref<() => void>;
   readonly size: number;
@@ -47,10 +82,98 @@ export type List<C, D> = {
   first(): C;
   // return last controller in the list, will throw error if the list is empty
   last(): C;
+  /**
+   * replace all items of the list with new data. The existing blocks that have the same key will be reused,
+   * the new blocks will be created for the new keys and the blocks of removed keys will be unmounted
+   * @param data
+   * @param options
+   */
+  assign(data: D[], options?: ListAssignOptions<D>): void;
+};
+
+export type ListAssignOptions<D> = {
+  /**
+   * a prop name or a function that returns the key of the list item data.
+   * If no key specified, the data itself will be used as the key
+   */
+  key?: keyof D | ((data: D, index: number) => any);
+};
+
+export type ListOptions = {
+  /**
+   * the event handlers of the list items are registered once on the list container
+   * and the handlers receive the item info as the second argument
+   */
+  delegate?: boolean;
+  /**
+   * the transition name or the transition options that are used to insert/remove/move the list items
+   */
+  transition?: string | TransitionOptions;
+};
+
+/**
+ * the info of the list item that dispatches the delegated event
+ */
+export type ListItem<C = any> = {
+  readonly index: number;
+  readonly controller: C;
+  /**
+   * the element that the handler is registered on.
+   * The event.currentTarget of delegated events is the list container
+   */
+  readonly element: Element;
+};
+
+export type VirtualListOptions<D> = {
+  /**
+   * the initial items
+   */
+  data?: D[];
+  /**
+   * the fixed height (px) of the items
+   */
+  itemHeight?: number;
+  /**
+   * the estimated height (px) of the items, the items are measured once they are rendered
+   */
+  estimateHeight?: number;
+  /**
+   * the number of items that are rendered outside the visible area, default is 3
+   */
+  overscan?: number;
+};
+
+export type VirtualList<D> = {
+  readonly ref: Ref<() => void>;
+  readonly size: number;
+  get(index: number): D | undefined;
+  set(index: number, data: D): void;
+  insert(index: number, data: D): void;
+  push(data: D): void;
+  remove(index: number, count?: number): D[];
+  /**
+   * replace all items with new data
+   * @param data
+   */
+  assign(data: D[]): void;
+  /**
+   * scroll the container to the item
+   * @param index
+   * @param align the position of the item in the visible area, default is "start"
+   */
+  scrollToIndex(index: number, align?: "start" | "center" | "end"): void;
+  toString(): string;
 };
 
 export type Extension<T = void> = (context: Context) => T;
 
+export type ErrorHandler = (error: unknown) => string | void;
+
+/**
+ * a typed key that is used to provide/inject values through the context tree
+ */
+export type Key<T> = { readonly name: string; readonly type?: T };
+
 export type ElementStyle =
   | string
   | { [key in keyof CSSStyleDeclaration]?: any };
@@ -76,27 +199,44 @@ export type ElementData<E> = {
   style?: ElementStyle;
   class?: ElementClass;
   attrs?: Record<string, any>;
-  onclick?: EventListener;
-  ondblclick?: EventListener;
-  onchange?: EventListener;
+  onclick?: ElementEventHandlers;
+  ondblclick?: ElementEventHandlers;
+  onchange?: ElementEventHandlers;
   // mouse events
-  onmouseover?: EventListener;
-  onmousedown?: EventListener;
-  onmousemove?: EventListener;
-  onmouseup?: EventListener;
-  onmouseenter?: EventListener;
-  onmouseleave?: EventListener;
+  onmouseover?: ElementEventHandlers;
+  onmousedown?: ElementEventHandlers;
+  onmousemove?: ElementEventHandlers;
+  onmouseup?: ElementEventHandlers;
+  onmouseenter?: ElementEventHandlers;
+  onmouseleave?: ElementEventHandlers;
   //
-  onload?: EventListener;
-  onerror?: EventListener;
-  onresize?: EventListener;
+  onload?: ElementEventHandlers;
+  onerror?: ElementEventHandlers;
+  onresize?: ElementEventHandlers;
   // key events
-  onkeydown?: EventListener;
-  onkeypress?: EventListener;
-  onkeyup?: EventListener;
-  on?: { [key in NoOnPrefix<keyof E>]?: EventListener };
+  onkeydown?: ElementEventHandlers;
+  onkeypress?: ElementEventHandlers;
+  onkeyup?: ElementEventHandlers;
+  on?: { [key in NoOnPrefix<keyof E>]?: ElementEventHandlers };
 };
 
+/**
+ * an event listener, the item info is passed if the element belongs to the list that delegates its events
+ */
+export type ElementEventListener = (event: Event, item?: ListItem) => void;
+
+/**
+ * an event listener or an event listener with its options
+ */
+export type ElementEventHandler =
+  | ElementEventListener
+  | {
+      listener: ElementEventListener;
+      options?: boolean | AddEventListenerOptions;
+    };
+
+export type ElementEventHandlers = ElementEventHandler | ElementEventHandler[];
+
 export type Context = {
   readonly parent?: Context;
   readonly id: string;
@@ -112,17 +252,80 @@ export type Context = {
     initialData: D
   ): Ref<() => H>;
 
+  /**
+   * create a ref for the block that is built asynchronously or receives the slot templates.
+   * The loading template is rendered while the block builder is pending.
+   * The block that does not receive any data must be passed undefined data: ref(Block, undefined, options)
+   * @param blockBuilder
+   * @param initialData
+   * @param options
+   */
+  ref<H extends Controller, D>(
+    blockBuilder: BlockBuilder<H, D>,
+    initialData: D,
+    options: BlockRefOptions
+  ): Ref<() => H>;
+
+  /**
+   * create a ref that renders the slot template that is passed by the parent block.
+   * The refs and bindings of the slot template are owned by the parent block
+   * ```js
+   * const Card = ({ slot }) => `<div><header>${slot("header")}</header>${slot("default", "No content")}</div>`;
+   * ```
+   * @param name
+   * @param fallback the template that is rendered if the parent block does not pass the slot
+   */
+  slot(name: string, fallback?: string): Ref<() => void>;
+
+  /**
+   * create a ref that renders the block of the current route, the block is replaced once the route changed.
+   * The router must be provided by the router extension of this block or its ancestor blocks
+   */
+  outlet(): Ref<() => void>;
+
+  /**
+   * mount the block into the target element (ex: document.body) instead of this block template.
+   * The portal block is still a child of this block, it is unmounted together with this block
+   * @param target the target element or its selector
+   * @param blockBuilder
+   */
+  portal<C extends Controller>(
+    target: Element | string,
+    blockBuilder: BlockBuilder<C, void>
+  ): ControllerRef<C>;
+
+  /**
+   * mount the block into the target element (ex: document.body) instead of this block template.
+   * The portal block is still a child of this block, it is unmounted together with this block
+   * @param target the target element or its selector
+   * @param blockBuilder
+   * @param data
+   */
+  portal<C extends Controller, D>(
+    target: Element | string,
+    blockBuilder: BlockBuilder<C, D>,
+    data: D
+  ): ControllerRef<C>;
+
   /**
    * use an mount/unmount effects
    * @param effect
    */
   effect(effect: Effect): void;
 
+  /**
+   * apply the scoped styles to this block. The scope classes are added to the elements of the block template
+   * and the styles are removed from the document once no mounted block uses them
+   * @param stylesheets the stylesheets that are created by css tagged template
+   */
+  styles(...stylesheets: Stylesheet[]): void;
+
   /**
    * create an element toggle ref
    * @param visible
+   * @param options
    */
-  toggle(visible?: boolean): Toggle;
+  toggle(visible?: boolean, options?: ToggleOptions): Toggle;
 
   /**
    * create list of block
@@ -137,18 +340,61 @@ export type Context = {
    */
   list<C extends Controller>(
     bloc: BlockBuilder<C, void>,
-    initialData: number
+    initialData: number,
+    options?: ListOptions
   ): List<C, void>;
 
   /**
    * create list of block
    * @param block
    * @param initialData
+   * @param options
    */
   list<C extends Controller, D>(
     block: BlockBuilder<C, D>,
-    initialData?: D extends void ? number : D[]
+    initialData?: D extends void ? number : D[],
+    options?: ListOptions
   ): List<C, D>;
+
+  /**
+   * create a virtual list that renders only the visible items inside the scroll container.
+   * The blocks are recycled while scrolling if their controllers have the update method
+   * @param block
+   * @param options
+   */
+  virtualList<C extends Controller, D>(
+    block: BlockBuilder<C, D>,
+    options: VirtualListOptions<D>
+  ): VirtualList<D>;
+  /**
+   * provide a value for the key, the value can be injected by this block and its descendant blocks
+   * @param key
+   * @param value
+   */
+  provide<T>(key: Key<T>, value: T): void;
+
+  /**
+   * return the value that is provided by nearest block (this block or its ancestors).
+   * An error will be thrown if there is no provided value for the key
+   * @param key
+   */
+  inject<T>(key: Key<T>): T;
+
+  /**
+   * return the value that is provided by nearest block (this block or its ancestors).
+   * The fallback value will be returned if there is no provided value for the key
+   * @param key
+   * @param fallback
+   */
+  inject<T>(key: Key<T>, fallback: T): T;
+
+  /**
+   * handle the errors that are thrown by descendant blocks (block builders, effects and signal listeners).
+   * The failed block will be unmounted and replaced with the fallback template that is returned by the handler
+   * @param handler
+   */
+  catch(handler: ErrorHandler): void;
+
   /**
    * use single extension
    * @param extension
@@ -233,7 +479,13 @@ export type Watcher<T> = {
    * return a binding that does show/hide target element according to signal value
    * @param transform
    */
-  show(transform: (value: T) => any): ElementRef;
+  show(transform: (value: T) => any, options?: ToggleOptions): ElementRef;
+
+  /**
+   * return a binding that does show/hide target element according to signal value
+   * @param options
+   */
+  show(options: ToggleOptions): ElementRef;
 
   /**
    * return a binding that does show/hide target element according to signal value
@@ -244,13 +496,45 @@ export type Watcher<T> = {
    * return a binding that does show/hide target element according to signal value
    * @param transform
    */
-  hide(transform: (value: T) => any): ElementRef;
+  hide(transform: (value: T) => any, options?: ToggleOptions): ElementRef;
+
+  /**
+   * return a binding that does show/hide target element according to signal value
+   * @param options
+   */
+  hide(options: ToggleOptions): ElementRef;
+
+  /**
+   * return a two-way binding that keeps the value/checked/selected options of the form element in sync with the signal.
+   * The signal must be an updatable signal
+   * @param options
+   */
+  model<E extends HTMLElement = HTMLInputElement>(
+    options?: ModelOptions
+  ): ElementRef<E>;
+};
+
+export type ModelOptions = {
+  /**
+   * update the signal on "change" event instead of "input" event
+   */
+  lazy?: boolean;
+  /**
+   * convert the element value to number or date before updating the signal
+   */
+  type?: "number" | "date";
 };
 
 /**
  * controller is result of block builder. It must have template prop
  */
-export type Controller = { template: string };
+export type Controller = {
+  template: string;
+  /**
+   * this method will be called when the block is reused with new data (ex: List.assign)
+   */
+  update?(data: any): void;
+};
 
 /**
  * block builder is a pure function that retrieves context for building block.
@@ -262,25 +546,111 @@ export type Controller = { template: string };
  * ```
  */
 export type BlockBuilder<R extends Controller = { template: "" }, D = void> =
-  | ((context: Context) => R | string)
-  | ((context: Context, data: D) => R | string);
+  | ((context: Context) => R | string | Promise<R | string>)
+  | ((context: Context, data: D) => R | string | Promise<R | string>);
 
-export type Block<C extends Controller> = {
+export type AsyncBlockOptions = {
+  /**
+   * the template that is rendered while the block builder is pending
+   */
+  loading?: string;
+  /**
+   * the template that is rendered if the block builder is rejected.
+   * If no error template specified, the error will be passed to the error handlers of ancestor blocks
+   */
+  error?: string | ((error: unknown) => string);
+};
+
+export type BlockRefOptions = AsyncBlockOptions & {
+  /**
+   * slot name => the template that is rendered by context.slot(name) of the block
+   */
+  slots?: Record<string, string>;
+};
+
+// the slot template and the refs of the parent block that are rendered inside it
+type SlotContent = { template: string; refs: Ref<() => any>[] };
+
+type BlockOptions = AsyncBlockOptions &
+  RenderOptions & {
+    slots?: Record<string, SlotContent>;
+    // called once the top-level nodes of the block are rendered, before its refs are mounted
+    onRender?: (nodes: Node[]) => void;
+  };
+
+export type Block<C extends Controller, D = any> = {
   readonly controller: C;
-  readonly rootElement: Element;
+  /**
+   * the root element of the block, it is the first root element if the block renders a fragment.
+   * It is undefined if the fragment does not have any element
+   */
+  readonly rootElement: Element | undefined;
+  /**
+   * the top-level nodes of the block. The nodes of the fragment are wrapped by start and end markers
+   */
+  readonly nodes: Node[];
+  readonly data: D;
   mount(element: Element): void;
   unmount(): void;
+  /**
+   * pass new data to the mounted block, the controller's update method will be called if any
+   * @param data
+   */
+  update(data: D): void;
 };
 
 export type TemplateManager = {
   element: Element;
-  clone(): Element;
+  /**
+   * the template has multiple root nodes
+   */
+  fragment: boolean;
+  clone(): Element | DocumentFragment;
 };
 
-const generateRefAttribute = (id: string) => ` data-ref-${id} `;
+// the ref attribute contains the ref index only (not the block id), so the blocks of the same builder produce the same template
+const generateRefAttribute = (id: string) =>
+  ` data-ref-${id.substring(id.lastIndexOf("-") + 1)} `;
 
 const generateTemplateHTML = (id: string) =>
-  `<template data-ref="${id}" ${generateRefAttribute(id)}></template>`;
+  `<template ${generateRefAttribute(id)}></template>`;
+
+// the maximum number of cached templates per block builder
+const maxCachedTemplates = 100;
+// document => block builder => template string => parsed template
+const templateCache = new WeakMap<
+  object,
+  WeakMap<Function, Map<string, TemplateManager>>
+>();
+
+/**
+ * return the parsed template of the block builder, the template string is parsed once per block builder
+ * @param blockBuilder
+ * @param templateString
+ */
+const getTemplate = (blockBuilder: Function, templateString: string) => {
+  const doc = getDocument();
+  let builderTemplates = templateCache.get(doc);
+  if (!builderTemplates) {
+    builderTemplates = new WeakMap();
+    templateCache.set(doc, builderTemplates);
+  }
+  let templates = builderTemplates.get(blockBuilder);
+  if (!templates) {
+    templates = new Map();
+    builderTemplates.set(blockBuilder, templates);
+  }
+  let template = templates.get(templateString);
+  if (!template) {
+    if (templates.size >= maxCachedTemplates) {
+      // remove the oldest template
+      templates.delete(templates.keys().next().value);
+    }
+    template = createTemplate(doc.createElement("template"), templateString);
+    templates.set(templateString, template);
+  }
+  return template;
+};
 
 const createTemplate = (
   templateElement: Element,
@@ -288,17 +658,22 @@ const createTemplate = (
 ): TemplateManager => {
   templateElement.innerHTML = templateString;
   const content = (templateElement as any).content as DocumentFragment;
-  if (content.children.length !== 1) {
-    throw new Error(
-      `Invalid template. The template must have only child but got ${content.children.length}`
-    );
+  // the whitespaces between the root nodes are ignored
+  const rootNodes = Array.from(content.childNodes).filter(
+    (node) => node.nodeType !== 3 || node.textContent!.trim()
+  );
+  if (!rootNodes.length) {
+    throw new Error("Invalid template. The template must have at least a node");
   }
-  const rootElement = content.children[0];
+  const fragment = rootNodes.length > 1 || !isElement(rootNodes[0]);
 
   return {
     element: templateElement,
-    clone(): Element {
-      return rootElement.cloneNode(true) as Element;
+    fragment,
+    clone() {
+      return (fragment ? content : rootNodes[0]).cloneNode(true) as
+        | Element
+        | DocumentFragment;
     },
   };
 };
@@ -307,47 +682,231 @@ const generateRefId = (context: Context, index: number) => {
   return context.id + "-" + index.toString(36);
 };
 
-let dynamicRefId = 0;
-const generateDynamicRefId = () => {
-  return `D${dynamicRefId++}`;
-};
-
 const insertBefore = (currentNode: Node, newNode: Node) => {
   currentNode.parentNode?.insertBefore(newNode, currentNode);
 };
 
-const createTextNode = (data = "") => document.createTextNode(data);
+const isElement = (node: Node): node is Element => node.nodeType === 1;
+
+// the nodes from the start node to the end node (inclusive)
+const getRangeNodes = (start: Node, end: Node) => {
+  const nodes: Node[] = [];
+  for (let node: Node | null = start; node; node = node.nextSibling) {
+    nodes.push(node);
+    if (node === end) break;
+  }
+  return nodes;
+};
+
+const moveNodes = (nodes: Node[], anchor: Node) => {
+  nodes.forEach((node) => insertBefore(anchor, node));
+};
+
+const removeNodes = (nodes: Node[]) => {
+  nodes.forEach((node) => node.parentNode?.removeChild(node));
+};
+
+// the document that is used to create new nodes, it is replaced by server document while rendering on the server side
+let currentDocument: Document | undefined;
+let serverRendering = false;
+// the scopes of the styles that are used by the blocks rendered on the server side
+let renderedScopes: Set<string> | undefined;
+// the container that is being hydrated
+let hydrationRoot: Element | undefined;
+
+const getDocument = () => currentDocument ?? document;
+
+const createComment = (data = "") => getDocument().createComment(data);
+
+const findComment = (root: Node, data: string): Comment | undefined => {
+  for (let node = root.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 8 && (node as Comment).data === data) {
+      return node as Comment;
+    }
+    const result = findComment(node, data);
+    if (result) return result;
+  }
+  return undefined;
+};
+
+/**
+ * find the rendered node of the block that has specified id.
+ * The fragment block is found by its start marker, other blocks are found by their root elements
+ * @param nodes
+ * @param id
+ */
+const findRenderedBlock = (nodes: Node[], id: string): Node | undefined => {
+  for (const node of nodes) {
+    if (node.nodeType === 8 && (node as Comment).data === id) return node;
+    const comment = findComment(node, id);
+    if (comment) return comment;
+  }
+  for (const node of nodes) {
+    if (!isElement(node)) continue;
+    if (node.getAttribute("data-ref") === id) return node;
+    const element = node.querySelector(`[data-ref="${id}"]`);
+    if (element) return element;
+  }
+  return undefined;
+};
+
+/**
+ * collect the rendered blocks that are the children of the parent node (ex: the list items before the list placeholder).
+ * The fragment blocks are collected by their start markers
+ * @param parent
+ */
+const collectRenderedBlocks = (parent: Node | null) => {
+  const blocks = new Map<string, Node>();
+  parent?.childNodes.forEach((node) => {
+    const id =
+      node.nodeType === 8
+        ? (node as Comment).data
+        : isElement(node)
+        ? node.getAttribute("data-ref")
+        : null;
+    // the start marker of the fragment is before its elements
+    if (id && !blocks.has(id)) blocks.set(id, node);
+  });
+  return blocks;
+};
+
+/**
+ * return the indices of the longest increasing subsequence of the input values.
+ * The negative values are ignored
+ * @param values
+ */
+const getLongestIncreasingSubsequence = (values: number[]) => {
+  const predecessors: number[] = [];
+  // tails[length - 1] is the index of the smallest tail value of all increasing subsequences with that length
+  const tails: number[] = [];
+  values.forEach((value, index) => {
+    if (value < 0) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    predecessors[index] = low ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result: number[] = [];
+  let index = tails.length ? tails[tails.length - 1] : -1;
+  while (index !== -1) {
+    result.unshift(index);
+    index = predecessors[index];
+  }
+  return result;
+};
 
 const createList = <C extends Controller, D>(
   context: Context,
   id: string,
   blockBuilder: BlockBuilder<C, D>,
-  initialData: number | D[] | undefined
+  initialData: number | D[] | undefined,
+  { delegate, transition }: ListOptions = {}
 ) => {
   let placeholder: Node;
-  let items: Block<C>[] = [];
+  let items: Block<C, D>[] = [];
+  let delegator: ListDelegator | undefined;
+  // the initial items are rendered without transition
+  let animated = false;
+  // the removed items that are still in the DOM until their leave transitions ended
+  const leavingItems = new Set<Block<C, D>>();
+  const getTransition = () =>
+    animated ? resolveTransition(transition) : undefined;
+  const getItemElements = (blocks: Block<C, D>[]) =>
+    blocks.reduce<Element[]>(
+      (elements, block) => elements.concat(block.nodes.filter(isElement)),
+      []
+    );
+  const removeItem = (block: Block<C, D>) => {
+    const options = getTransition();
+    if (!options) {
+      block.unmount();
+      return;
+    }
+    leavingItems.add(block);
+    transitNodes(block.nodes, options, "leave", () => {
+      leavingItems.delete(block);
+      block.unmount();
+    });
+  };
+  let itemCount = 0;
+  // item id => the rendered item node, the rendered items are collected once while hydrating
+  let renderedItems: Map<string, Node> | undefined;
   const createItem = (data: D, insertAction: (element: Element) => void) => {
-    const block = createBlock(blockBuilder, context, data);
-    const templateElement = document.createElement("template");
-    // should use static ref id
-    templateElement.setAttribute("data-ref", generateDynamicRefId());
+    const block: Block<C, D> = createBlock(blockBuilder, context, data, {
+      // the item nodes are owned by this list before the listeners of the item are added
+      onRender: (nodes) => {
+        if (!delegator) return;
+        const owner = { delegator, block };
+        nodes.forEach((node) => listItemOwners.set(node, owner));
+      },
+    });
+    // item ids must be the same on both server and client sides
+    const itemId = id + "-" + (itemCount++).toString(36);
+    if (hydrationRoot && !renderedItems) {
+      renderedItems = collectRenderedBlocks(placeholder.parentNode);
+    }
+    const existingElement = hydrationRoot && renderedItems!.get(itemId);
+    if (existingElement) {
+      block.mount(existingElement as Element);
+      return block;
+    }
+    const templateElement = getDocument().createElement("template");
+    templateElement.setAttribute("data-ref", itemId);
     insertAction(templateElement);
     block.mount(templateElement);
+    const options = getTransition();
+    if (options) transitNodes(block.nodes, options, "enter");
     return block;
   };
   const ref = createRef(
     id,
     "element",
     (element) => {
-      placeholder = createTextNode("");
-      element.before(placeholder);
-      element.remove();
+      // the placeholder is rendered already
+      if (element.nodeType === 8) {
+        placeholder = element;
+      } else {
+        placeholder = createComment(id);
+        element.before(placeholder);
+        element.remove();
+      }
+      if (placeholder.parentNode) {
+        delegator = createListDelegator(
+          placeholder.parentNode,
+          (block) => items.indexOf(block as Block<C, D>),
+          !!delegate
+        );
+      }
       return () => {};
     },
     () => {
       items.forEach((item) => item.unmount());
       items.length = 0;
+      leavingItems.forEach((item) => {
+        item.nodes.filter(isElement).forEach(cancelTransition);
+        item.unmount();
+      });
+      leavingItems.clear();
+      delegator?.dispose();
       placeholder.parentNode?.removeChild(placeholder);
+    },
+    () => {
+      if (!initialData) return;
+      const initialList =
+        typeof initialData === "number"
+          ? new Array<D>(initialData).fill(undefined as unknown as D)
+          : initialData;
+      initialList.forEach((item) => list.push(item));
+      renderedItems = undefined;
+      animated = true;
     }
   );
   const list: List<C, D> = {
@@ -363,9 +922,9 @@ const createList = <C extends Controller, D>(
         throw new Error("Item index is out of range");
       }
       const block = createItem(data, (element) => {
-        insertBefore(items[index].rootElement, element);
+        insertBefore(items[index].nodes[0], element);
       });
-      items[index].unmount();
+      removeItem(items[index]);
       items[index] = block;
       return block.controller;
     },
@@ -383,17 +942,17 @@ const createList = <C extends Controller, D>(
     },
     pop() {
       const item = items.pop();
-      item?.unmount();
+      item && removeItem(item);
       return item?.controller;
     },
     shift() {
       const item = items.shift();
-      item?.unmount();
+      item && removeItem(item);
       return item?.controller;
     },
     unshift(data) {
       const block = createItem(data, (element) => {
-        insertBefore(items[0]?.rootElement ?? placeholder, element);
+        insertBefore(items[0]?.nodes[0] ?? placeholder, element);
       });
       items.unshift(block);
       return block.controller;
@@ -407,7 +966,7 @@ const createList = <C extends Controller, D>(
     },
     insert(index: number, data) {
       const block = createItem(data, (element) => {
-        insertBefore(items[index]?.rootElement ?? placeholder, element);
+        insertBefore(items[index]?.nodes[0] ?? placeholder, element);
       });
       items.splice(index, 0, block);
       return block.controller;
@@ -428,11 +987,19 @@ const createList = <C extends Controller, D>(
       }
       const toItem = items[to];
       const fromItem = items[from];
-      const nextFrom = fromItem.rootElement.nextSibling ?? placeholder;
+      const fromNodes = fromItem.nodes;
+      const toNodes = toItem.nodes;
+      const nextTo = toNodes[toNodes.length - 1].nextSibling ?? placeholder;
       items[from] = toItem;
       items[to] = fromItem;
-      insertBefore(toItem.rootElement, fromItem.rootElement);
-      insertBefore(nextFrom, toItem.rootElement);
+      animateMove(
+        fromNodes.concat(toNodes).filter(isElement),
+        getTransition(),
+        () => {
+          moveNodes(toNodes, fromNodes[0]);
+          moveNodes(fromNodes, nextTo);
+        }
+      );
     },
     move(from, to) {
       if (
@@ -444,23 +1011,23 @@ const createList = <C extends Controller, D>(
         to >= items.length
       )
         return;
-      const toItem = items[to];
-      const fromItem = items[from];
-
+      const [fromItem] = items.splice(from, 1);
       items.splice(to, 0, fromItem);
-      toItem.rootElement.before(fromItem.rootElement);
+      animateMove(getItemElements(items), getTransition(), () =>
+        // the placeholder is after the last item
+        moveNodes(fromItem.nodes, items[to + 1]?.nodes[0] ?? placeholder)
+      );
     },
     sort(sortFn) {
       if (!items.length) return;
       const sorted = items
         .slice()
-        .sort((a, b) => -sortFn(a.controller, b.controller));
-      let lastNode = placeholder;
-      sorted.forEach((controller, index) => {
-        insertBefore(lastNode, controller.rootElement);
-        items[index] = controller;
-        lastNode = controller.rootElement;
-      });
+        .sort((a, b) => sortFn(a.controller, b.controller));
+      animateMove(getItemElements(items), getTransition(), () =>
+        // the placeholder is after the last item
+        sorted.forEach((item) => moveNodes(item.nodes, placeholder))
+      );
+      items = sorted;
     },
     findIndex(predicate) {
       return items.findIndex((item, index) =>
@@ -484,7 +1051,7 @@ const createList = <C extends Controller, D>(
         for (const item of items) {
           if (predicate(item.controller, index)) {
             removed.push(item.controller);
-            item.unmount();
+            removeItem(item);
             count--;
             removedIndices.push(index);
           }
@@ -499,44 +1066,337 @@ const createList = <C extends Controller, D>(
         // remove(index, count)
         const [index, count = 1] = args as [number, number];
         const removed = items.splice(index, count);
-        removed.forEach((x) => x.unmount());
+        removed.forEach(removeItem);
         if (arguments.length > 1) return removed[0];
         return removed.map((x) => x.controller);
       }
     },
+    assign(data, options) {
+      const key = options?.key;
+      const getKey =
+        typeof key === "function"
+          ? key
+          : key !== undefined
+          ? (data: D) => data[key]
+          : (data: D) => data;
+      // key => indices of old items
+      const oldIndices = new Map<any, number[]>();
+      items.forEach((item, index) => {
+        const itemKey = getKey(item.data, index);
+        const indices = oldIndices.get(itemKey);
+        if (indices) {
+          indices.push(index);
+        } else {
+          oldIndices.set(itemKey, [index]);
+        }
+      });
+      // old index of each new item, -1 means the new item has no reusable block
+      const sources = data.map((itemData, index) => {
+        const source = oldIndices.get(getKey(itemData, index))?.shift() ?? -1;
+        // the block cannot render the new data if its controller does not handle the updates
+        return source !== -1 &&
+          items[source].data !== itemData &&
+          !items[source].controller.update
+          ? -1
+          : source;
+      });
+      const reused = new Set(sources);
+      items.forEach((item, index) => {
+        if (!reused.has(index)) removeItem(item);
+      });
+      // the reused blocks in this subsequence keep their relative order so they don't need to be moved
+      const stableIndices = new Set(getLongestIncreasingSubsequence(sources));
+      const nextItems: Block<C, D>[] = [];
+      let nextNode: Node = placeholder;
+      animateMove(
+        getItemElements(items.filter((_, index) => reused.has(index))),
+        getTransition(),
+        () => {
+          for (let index = data.length - 1; index >= 0; index--) {
+            const source = sources[index];
+            const anchor = nextNode;
+            let block: Block<C, D>;
+            if (source === -1) {
+              block = createItem(data[index], (element) => {
+                insertBefore(anchor, element);
+              });
+            } else {
+              block = items[source];
+              if (block.data !== data[index]) {
+                block.update(data[index]);
+              }
+              if (!stableIndices.has(index)) {
+                moveNodes(block.nodes, anchor);
+              }
+            }
+            nextItems[index] = block;
+            nextNode = block.nodes[0];
+          }
+        }
+      );
+      items = nextItems;
+    },
     toString: ref.toString,
   };
 
-  if (initialData) {
-    const initialList =
-      typeof initialData === "number"
-        ? new Array<D>(initialData).fill(undefined as unknown as D)
-        : initialData;
-    context.effect(() => {
-      initialList.forEach((item) => list.push(item));
-    });
-  }
-
   return list;
 };
 
-const createRef = <A extends (...args: any[]) => any>(
+const createVirtualList = <C extends Controller, D>(
+  context: Context,
   id: string,
-  type: "attribute" | "element",
-  init?: (element: Element) => A | void,
-  onUnmount?: VoidFunction,
-  onMount?: VoidFunction
-): Ref<A> => {
-  let accessor: A;
-  let mounted = false;
-  const template =
-    type === "attribute" ? generateRefAttribute(id) : generateTemplateHTML(id);
-  const ref = Object.assign(
-    (...args: Parameters<A>): ReturnType<A> => {
-      if (!mounted) {
-        throw new Error("The ref has not been mounted");
-      }
-      return accessor(...args);
+  blockBuilder: BlockBuilder<C, D>,
+  { data = [], itemHeight, estimateHeight, overscan = 3 }: VirtualListOptions<D>
+) => {
+  const defaultHeight = itemHeight ?? estimateHeight;
+  if (!defaultHeight) {
+    throw new Error("The virtual list requires itemHeight or estimateHeight");
+  }
+  let items = data.slice();
+  // the measured heights of the items, it is used if the item height is not fixed
+  let heights: (number | undefined)[] = [];
+  let offsets: number[] | undefined;
+  let container: HTMLElement;
+  let content: HTMLElement;
+  let blockCount = 0;
+  let resizeObserver: ResizeObserver | undefined;
+  // item index => the block that renders the item
+  const renderedBlocks = new Map<number, Block<C, D>>();
+  // the blocks that are not rendered any item, they are reused for next items
+  const recycledBlocks: Block<C, D>[] = [];
+
+  const getOffsets = () => {
+    if (!offsets) {
+      offsets = [0];
+      items.forEach((_, index) => {
+        offsets!.push(offsets![index] + (heights[index] ?? defaultHeight));
+      });
+    }
+    return offsets;
+  };
+  const getOffset = (index: number) =>
+    itemHeight ? index * itemHeight : getOffsets()[index];
+  const getItemHeight = (index: number) =>
+    itemHeight ?? heights[index] ?? defaultHeight;
+  // the index of the item that is at the position
+  const findIndex = (position: number) => {
+    if (itemHeight) return Math.floor(position / itemHeight);
+    const itemOffsets = getOffsets();
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (itemOffsets[middle] <= position) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  };
+
+  const releaseBlock = (block: Block<C, D>) => {
+    // the block cannot show other items if it does not handle the data updates
+    if (!block.controller.update) {
+      block.unmount();
+      return;
+    }
+    (block.rootElement as HTMLElement).style.display = "none";
+    recycledBlocks.push(block);
+  };
+
+  const acquireBlock = (itemData: D) => {
+    const recycledBlock = recycledBlocks.pop();
+    if (recycledBlock) {
+      recycledBlock.update(itemData);
+      (recycledBlock.rootElement as HTMLElement).style.display = "";
+      return recycledBlock;
+    }
+    const block = createBlock(blockBuilder, context, itemData);
+    const templateElement = getDocument().createElement("template");
+    templateElement.setAttribute(
+      "data-ref",
+      id + "-" + (blockCount++).toString(36)
+    );
+    content.appendChild(templateElement);
+    block.mount(templateElement);
+    if (!block.rootElement) {
+      throw new Error("The item block of virtual list must render an element");
+    }
+    const style = (block.rootElement as HTMLElement).style;
+    style.position = "absolute";
+    style.left = "0";
+    style.right = "0";
+    return block;
+  };
+
+  const measure = () => {
+    // the elements cannot be measured while rendering on the server side
+    if (itemHeight || serverRendering) return false;
+    let changed = false;
+    renderedBlocks.forEach((block, index) => {
+      const height = block.rootElement!.getBoundingClientRect().height;
+      // the elements are not laid out (ex: hidden container)
+      if (!height || height === heights[index]) return;
+      heights[index] = height;
+      changed = true;
+    });
+    if (changed) offsets = undefined;
+    return changed;
+  };
+
+  const renderWindow = () => {
+    const viewportHeight = container.clientHeight || 0;
+    const scrollTop = container.scrollTop || 0;
+    const start = Math.max(0, findIndex(scrollTop) - overscan);
+    const end = Math.min(
+      items.length - 1,
+      findIndex(scrollTop + viewportHeight) + overscan
+    );
+    renderedBlocks.forEach((block, index) => {
+      if (index >= start && index <= end) return;
+      renderedBlocks.delete(index);
+      releaseBlock(block);
+    });
+    for (let index = start; index <= end; index++) {
+      if (!renderedBlocks.has(index)) {
+        renderedBlocks.set(index, acquireBlock(items[index]));
+      }
+    }
+    // the measured heights change the positions of the items
+    measure();
+    renderedBlocks.forEach((block, index) => {
+      (block.rootElement as HTMLElement).style.top = getOffset(index) + "px";
+    });
+    content.style.height =
+      (items.length
+        ? getOffset(items.length - 1) + getItemHeight(items.length - 1)
+        : 0) + "px";
+  };
+
+  // the indices of the rendered items are changed, all items must be re-rendered
+  const rerender = () => {
+    offsets = undefined;
+    if (!ref.mounted) return;
+    renderedBlocks.forEach(releaseBlock);
+    renderedBlocks.clear();
+    renderWindow();
+  };
+
+  const ref = createRef(
+    id,
+    "attribute",
+    (element) => {
+      container = element as HTMLElement;
+      // the container content is owned by the virtual list
+      container.textContent = "";
+      content = getDocument().createElement("div") as HTMLElement;
+      content.style.position = "relative";
+      container.appendChild(content);
+      container.addEventListener("scroll", renderWindow);
+      if (typeof ResizeObserver === "function") {
+        resizeObserver = new ResizeObserver(() => renderWindow());
+        resizeObserver.observe(container);
+      }
+    },
+    () => {
+      container.removeEventListener("scroll", renderWindow);
+      resizeObserver?.disconnect();
+      renderedBlocks.forEach((block) => block.unmount());
+      renderedBlocks.clear();
+      recycledBlocks.forEach((block) => block.unmount());
+      recycledBlocks.length = 0;
+      content.remove();
+    },
+    () => renderWindow()
+  );
+
+  const virtualList: VirtualList<D> = {
+    ref,
+    get size() {
+      return items.length;
+    },
+    get(index) {
+      return items[index];
+    },
+    set(index, itemData) {
+      if (index < 0 || index >= items.length) {
+        throw new Error("Item index is out of range");
+      }
+      items[index] = itemData;
+      heights[index] = undefined;
+      const block = renderedBlocks.get(index);
+      if (!block) {
+        offsets = undefined;
+        return;
+      }
+      if (block.controller.update) {
+        block.update(itemData);
+        offsets = undefined;
+        renderWindow();
+      } else {
+        rerender();
+      }
+    },
+    insert(index, itemData) {
+      items.splice(index, 0, itemData);
+      heights.splice(index, 0, undefined);
+      rerender();
+    },
+    push(itemData) {
+      virtualList.insert(items.length, itemData);
+    },
+    remove(index, count = 1) {
+      const removed = items.splice(index, count);
+      heights.splice(index, count);
+      rerender();
+      return removed;
+    },
+    assign(nextData) {
+      items = nextData.slice();
+      heights = [];
+      rerender();
+    },
+    scrollToIndex(index, align = "start") {
+      index = Math.max(0, Math.min(index, items.length - 1));
+      const offset = getOffset(index);
+      const viewportHeight = container.clientHeight || 0;
+      const itemSize = getItemHeight(index);
+      container.scrollTop =
+        align === "center"
+          ? offset - (viewportHeight - itemSize) / 2
+          : align === "end"
+          ? offset - viewportHeight + itemSize
+          : offset;
+      renderWindow();
+    },
+    toString: ref.toString,
+  };
+
+  return virtualList;
+};
+
+const createRef = <A extends (...args: any[]) => any>(
+  id: string,
+  type: "attribute" | "element",
+  init?: (element: Element) => A | void,
+  onUnmount?: VoidFunction,
+  onMount?: VoidFunction
+): Ref<A> => {
+  let accessor: A;
+  let mounted = false;
+  let mountedElement: Element;
+  // the listeners that are added by ref.listen()
+  const listenerKey = {};
+  const pendingListeners: [string, ElementEventHandler][] = [];
+  const template =
+    type === "attribute" ? generateRefAttribute(id) : generateTemplateHTML(id);
+  const ref = Object.assign(
+    (...args: Parameters<A>): ReturnType<A> => {
+      if (!mounted) {
+        throw new Error("The ref has not been mounted");
+      }
+      return accessor(...args);
     },
     {
       id,
@@ -545,6 +1405,11 @@ const createRef = <A extends (...args: any[]) => any>(
         if (mounted) {
           throw new Error("Cannot re-mount. The ref has been mounted");
         }
+        mountedElement = element;
+        pendingListeners.forEach(([type, handler]) =>
+          addListeners(element, listenerKey, type, handler)
+        );
+        pendingListeners.length = 0;
         accessor = init?.(element) ?? ((() => element) as A);
         mounted = true;
         onMount?.();
@@ -552,6 +1417,10 @@ const createRef = <A extends (...args: any[]) => any>(
       unmount() {
         if (!mounted) return;
         mounted = false;
+        if (type === "attribute") {
+          removeListeners(mountedElement, id);
+          removeListeners(mountedElement, listenerKey);
+        }
         onUnmount?.();
       },
     }
@@ -567,32 +1436,234 @@ const createRef = <A extends (...args: any[]) => any>(
       style: (value: any) => setStyle(ref(), value),
       class: (value: any) => setClass(ref(), value),
       update: (value: any) => updateElement(ref(), value, id),
+      listen(
+        type: string,
+        listener: ElementEventListener,
+        options?: boolean | AddEventListenerOptions
+      ) {
+        const handler = { listener, options };
+        if (mounted) {
+          addListeners(mountedElement, listenerKey, type, handler);
+        } else {
+          pendingListeners.push([type, handler]);
+        }
+        return ref;
+      },
     });
   }
 
   return ref;
 };
 
+let transitionsEnabled = true;
+
+/**
+ * enable/disable all transitions. The elements are inserted/removed/moved immediately if the transitions are disabled (ex: in tests)
+ * @param enabled
+ */
+export const setTransitions = (enabled: boolean) => {
+  transitionsEnabled = enabled;
+};
+
+const nextFrame = (callback: VoidFunction) => {
+  (typeof requestAnimationFrame === "function"
+    ? requestAnimationFrame
+    : setTimeout)(callback);
+};
+
+// element => the function that cancels the running transition of the element
+const runningTransitions = new WeakMap<Element, VoidFunction>();
+
+const cancelTransition = (element: Element) => {
+  runningTransitions.get(element)?.();
+};
+
+const resolveTransition = (transition?: string | TransitionOptions) => {
+  if (!transition || !transitionsEnabled || serverRendering) return undefined;
+  return typeof transition === "string" ? { name: transition } : transition;
+};
+
+// convert the css time list (ex: "0.3s, 100ms") to the max value in milliseconds
+const parseDuration = (value = "") =>
+  Math.max(
+    0,
+    ...value
+      .split(",")
+      .map(
+        (time) =>
+          (parseFloat(time) || 0) * (time.trim().endsWith("ms") ? 1 : 1000)
+      )
+  );
+
+const getTransitionDuration = (element: Element) => {
+  if (typeof getComputedStyle !== "function") return 0;
+  const style = getComputedStyle(element);
+  return Math.max(
+    parseDuration(style.transitionDuration) +
+      parseDuration(style.transitionDelay),
+    parseDuration(style.animationDuration) + parseDuration(style.animationDelay)
+  );
+};
+
+/**
+ * apply the classes of the transition phase to the element and call onDone once the transition ended.
+ * The running transition of the element will be cancelled without calling its onDone
+ */
+const transit = (
+  element: Element,
+  { name, duration }: TransitionOptions,
+  phase: "enter" | "leave" | "move",
+  onFrame?: VoidFunction,
+  onDone?: VoidFunction
+) => {
+  cancelTransition(element);
+  const fromClasses = phase === "move" ? [] : [`${name}-${phase}-from`];
+  const activeClasses =
+    phase === "move" ? [`${name}-move`] : [`${name}-${phase}-active`];
+  const toClasses = phase === "move" ? [] : [`${name}-${phase}-to`];
+  let framed = false;
+  let finished = false;
+  let timer: any;
+  const onEnd = (e: Event) => {
+    if (e.target === element) finish();
+  };
+  const cleanup = () => {
+    finished = true;
+    clearTimeout(timer);
+    runningTransitions.delete(element);
+    element.removeEventListener("transitionend", onEnd);
+    element.removeEventListener("animationend", onEnd);
+    element.classList.remove(...fromClasses, ...activeClasses, ...toClasses);
+    // the element must be restored even if the transition is cancelled before the next frame
+    if (!framed) onFrame?.();
+  };
+  const finish = () => {
+    if (finished) return;
+    cleanup();
+    onDone?.();
+  };
+  element.classList.add(...fromClasses, ...activeClasses);
+  runningTransitions.set(element, cleanup);
+  nextFrame(() => {
+    if (finished) return;
+    framed = true;
+    onFrame?.();
+    element.classList.remove(...fromClasses);
+    element.classList.add(...toClasses);
+    element.addEventListener("transitionend", onEnd);
+    element.addEventListener("animationend", onEnd);
+    timer = setTimeout(finish, duration ?? getTransitionDuration(element));
+  });
+};
+
+/**
+ * apply the transition to all root elements of the nodes and call onDone once all transitions ended
+ */
+const transitNodes = (
+  nodes: Node[],
+  options: TransitionOptions,
+  phase: "enter" | "leave",
+  onDone?: VoidFunction
+) => {
+  const elements = nodes.filter(isElement);
+  let pending = elements.length;
+  if (!pending) {
+    onDone?.();
+    return;
+  }
+  elements.forEach((element) =>
+    transit(element, options, phase, undefined, () => {
+      if (!--pending) onDone?.();
+    })
+  );
+};
+
+/**
+ * reorder the elements and animate them from their old positions to the new ones (FLIP)
+ */
+const animateMove = (
+  elements: Element[],
+  transition: TransitionOptions | undefined,
+  reorder: VoidFunction
+) => {
+  if (!transition) return reorder();
+  const rects = elements.map((element) => element.getBoundingClientRect());
+  reorder();
+  elements.forEach((element, index) => {
+    const prevRect = rects[index];
+    const nextRect = element.getBoundingClientRect();
+    const dx = prevRect.left - nextRect.left;
+    const dy = prevRect.top - nextRect.top;
+    if (!dx && !dy) return;
+    const style = (element as HTMLElement).style;
+    style.transform = `translate(${dx}px, ${dy}px)`;
+    style.transitionDuration = "0s";
+    transit(element, transition, "move", () => {
+      style.transform = "";
+      style.transitionDuration = "";
+    });
+  });
+};
+
 const createToggle = (
   id: string,
   initialVisible = true,
-  onMount?: (element: Element) => void
+  onMount?: (element: Element) => void,
+  { transition }: ToggleOptions = {}
 ) => {
   let placeholder: Node;
   let rootElement: Element;
+  // the end marker of the toggled template content
+  let endNode: Node | undefined;
+  // the template content nodes that are hidden
+  let hiddenNodes: Node[] = [];
   let visible: boolean = false;
+  // the initial visibility is applied without transition
+  let animated = false;
+  // the toggled template content is the node range between the placeholder and the end marker
+  const getNodes = () =>
+    endNode ? getRangeNodes(placeholder, endNode).slice(1, -1) : [rootElement];
   let ref = createRef(
     id,
     "attribute",
     (element) => {
-      placeholder = createTextNode("");
-      element.before(placeholder);
       rootElement = element;
+      const existingPlaceholder =
+        hydrationRoot && findComment(hydrationRoot, id);
+      if (existingPlaceholder) {
+        placeholder = existingPlaceholder;
+        const existingEndNode =
+          element.tagName === "TEMPLATE"
+            ? findComment(hydrationRoot!, "/" + id)
+            : undefined;
+        if (existingEndNode) {
+          endNode = existingEndNode;
+          // the hidden content is not rendered, it comes from the block template
+          hiddenNodes = Array.from(
+            (element as HTMLTemplateElement).content.childNodes
+          );
+          visible = getNodes().length > 0;
+          return;
+        }
+        // the hidden element is not rendered, it comes from the block template
+        visible = hydrationRoot!.contains(element);
+        return;
+      }
+      placeholder = createComment(id);
+      element.before(placeholder);
+      visible = true;
+      if (element.tagName === "TEMPLATE") {
+        endNode = createComment("/" + id);
+        insertBefore(element, (element as HTMLTemplateElement).content);
+        insertBefore(element, endNode);
+        element.remove();
+      }
     },
     () => {},
     () => {
       toggle.visible = initialVisible;
       onMount?.(rootElement);
+      animated = true;
     }
   );
 
@@ -604,10 +1675,22 @@ const createToggle = (
     set visible(value) {
       if (value === visible) return;
       visible = value;
+      const options = animated ? resolveTransition(transition) : undefined;
       if (visible) {
-        insertBefore(placeholder, rootElement);
+        const nodes = endNode ? hiddenNodes : [rootElement];
+        // the nodes might be leaving, they are kept in the DOM
+        nodes.filter(isElement).forEach(cancelTransition);
+        moveNodes(nodes, endNode ?? placeholder);
+        if (options) transitNodes(nodes, options, "enter");
+        return;
+      }
+      const nodes = getNodes();
+      hiddenNodes = nodes;
+      if (options) {
+        transitNodes(nodes, options, "leave", () => removeNodes(nodes));
       } else {
-        rootElement.remove();
+        nodes.filter(isElement).forEach(cancelTransition);
+        removeNodes(nodes);
       }
     },
     show() {
@@ -625,22 +1708,115 @@ const createToggle = (
   return toggle;
 };
 
-const mountRefs = (rootElement: Element, refs: Ref<() => any>[]) => {
-  refs.forEach((ref) => {
+const findRefElement = (rootElement: Element, attr: string): Element | null => {
+  if (rootElement.getAttribute(attr) === "") return rootElement;
+  const element = rootElement.querySelector(`[${attr}]`);
+  if (element) return element;
+  // the content of template element (ex: the toggled fragment) is not queried by querySelector
+  for (const template of Array.from(rootElement.querySelectorAll("template"))) {
+    for (const child of Array.from(
+      (template as HTMLTemplateElement).content.children
+    )) {
+      const contentElement = findRefElement(child, attr);
+      if (contentElement) return contentElement;
+    }
+  }
+  return null;
+};
+
+// the rendered markup contains the elements of descendant blocks, they have the same ref attributes
+const findRenderedRefElement = (rootElements: Element[], attr: string) => {
+  for (const rootElement of rootElements) {
+    if (rootElement.getAttribute(attr) === "") return rootElement;
+    const element = Array.from(rootElement.querySelectorAll(`[${attr}]`)).find(
+      // the top-level elements of child blocks reuse the same ref attributes
+      (element) =>
+        !element.hasAttribute("data-ref") &&
+        element.parentElement?.closest("[data-ref]") === rootElement
+    );
+    if (element) return element;
+  }
+  return null;
+};
+
+const hydrateRefs = (
+  id: string,
+  // the rendered top-level nodes of the block
+  rootNodes: Node[],
+  refs: Ref<() => any>[],
+  // the content that is created from block template, it is used to verify the rendered elements
+  templateContent: Element | DocumentFragment
+) => {
+  // the top-level elements of descendant blocks are marked with their own ids
+  const rootElements = rootNodes.filter(
+    (node): node is Element =>
+      isElement(node) && node.getAttribute("data-ref") === id
+  );
+  const templateElements =
+    templateContent.nodeType === 11
+      ? Array.from(templateContent.children)
+      : [templateContent as Element];
+  // find all ref nodes before mounting, the toggles move their content out of the expected elements
+  const renderedNodes = refs.map((ref) => {
     if (!ref.id) {
       throw new Error("Invalid ref");
     }
     const attr = generateRefAttribute(ref.id).trim();
-    const refElement =
-      rootElement.getAttribute(attr) === ""
-        ? rootElement
-        : rootElement?.querySelector(`[${attr}]`);
+    const refElement = findRenderedRefElement(rootElements, attr);
+    let expectedElement: Element | null = null;
+    for (const templateElement of templateElements) {
+      expectedElement = findRefElement(templateElement, attr);
+      if (expectedElement) break;
+    }
+    if (
+      refElement &&
+      expectedElement &&
+      expectedElement.tagName !== "TEMPLATE" &&
+      refElement.tagName !== expectedElement.tagName
+    ) {
+      throw new Error(
+        `Hydration mismatch. The ref element ${ref.id} should be ${expectedElement.tagName} but got ${refElement.tagName}`
+      );
+    }
+    const renderedNode =
+      refElement ??
+      (expectedElement?.tagName === "TEMPLATE"
+        ? // the placeholders of child blocks and lists are empty, the toggled template is hydrated with its content
+          (expectedElement as HTMLTemplateElement).content.childNodes.length
+          ? expectedElement
+          : findRenderedBlock(rootNodes, ref.id)
+        : // the element that is not rendered (ex: hidden toggle)
+          expectedElement);
+    if (!renderedNode) {
+      throw new Error(
+        `Hydration mismatch. The ref element ${ref.id} is not rendered`
+      );
+    }
+    return renderedNode as Element;
+  });
+  refs.forEach((ref, index) => ref.mount(renderedNodes[index]));
+};
 
+const mountRefs = (rootNodes: Node[], refs: Ref<() => any>[]) => {
+  const rootElements = rootNodes.filter(isElement);
+  // find all ref elements before mounting, the child blocks might render the elements that have the same ref attributes
+  const refElements = refs.map((ref) => {
+    if (!ref.id) {
+      throw new Error("Invalid ref");
+    }
+    const attr = generateRefAttribute(ref.id).trim();
+    for (const rootElement of rootElements) {
+      const refElement = findRefElement(rootElement, attr);
+      if (refElement) return refElement;
+    }
+    return null;
+  });
+  refs.forEach((ref, index) => {
+    const refElement = refElements[index];
     if (!refElement) {
       console.warn(`Ref element ${ref.id} is not rendered`);
       return;
     }
-    refElement.removeAttribute(ref.id);
     ref.mount(refElement);
   });
 };
@@ -653,7 +1829,21 @@ export type Signal<T = any> = {
   readonly state: T;
 };
 
-export type UpdatableSignal<T = any> = Signal<T> & {
+/**
+ * the signal that is created by signal(), computed() or resource()
+ */
+export type SelectableSignal<T = any> = Signal<T> & {
+  /**
+   * return a read-only signal of the selected value, its listeners are notified only if the selected value changed
+   * @param selector
+   * @param equals compare the previous and next selected values, default is strict equality
+   */
+  select<R>(selector: (state: T) => R, equals?: Equals<R>): SelectableSignal<R>;
+};
+
+export type Equals<T> = (prev: T, next: T) => boolean;
+
+export type UpdatableSignal<T = any> = SelectableSignal<T> & {
   state: T;
   set(value: ((prev: T) => T) | T): void;
   toggle(): void;
@@ -662,20 +1852,217 @@ export type UpdatableSignal<T = any> = Signal<T> & {
   ): (...args: A) => R;
 };
 
-export type EmittableSignal<T = any, A = any> = Signal<T> & {
+export type EmittableSignal<T = any, A = any> = SelectableSignal<T> & {
   emit(action: A): void;
   on(listener: Listener<T, A>, type?: "action" | "state"): VoidFunction;
 };
 
+/**
+ * the signal that is created with the persist option
+ */
+export type PersistedSignal = {
+  /**
+   * stop syncing the persisted state with the storage
+   */
+  dispose(): void;
+};
+
+/**
+ * the storage that keeps the persisted signal states. The Web Storage (ex: localStorage) can be used as the adapter
+ */
+export type StorageAdapter = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  /**
+   * listen the changes that are made by other sources (ex: other tabs).
+   * The storage events of window are used if the adapter does not have this method
+   * @param key
+   * @param listener
+   */
+  subscribe?(
+    key: string,
+    listener: (value: string | null) => void
+  ): VoidFunction;
+};
+
+export type PersistedState<T> = { state: T; version: number };
+
+export type PersistOptions<T> = {
+  key: string;
+  /**
+   * the storage adapter, default is localStorage
+   */
+  storage?: StorageAdapter;
+  /**
+   * default is JSON.stringify
+   */
+  serialize?: (value: PersistedState<T>) => string;
+  /**
+   * default is JSON.parse
+   */
+  deserialize?: (value: string) => PersistedState<T>;
+  /**
+   * the version of the state, default is 0
+   */
+  version?: number;
+  /**
+   * convert the persisted state of other version to the current one.
+   * The persisted state of other version is discarded if there is no migrate function
+   */
+  migrate?: (state: any, version: number) => T;
+  /**
+   * the delay (ms) of writing the state changes to the storage, default is 100
+   */
+  debounce?: number;
+  /**
+   * handle the error of restoring the persisted state, the initial state is used instead
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type SignalOptions<T> = {
+  /**
+   * the listeners are not notified if the next state equals the current state, default is strict equality
+   */
+  equals?: Equals<T>;
+  /**
+   * restore the state from the storage and write the state changes to it
+   */
+  persist?: PersistOptions<T>;
+};
+
+type PersistedSignalOptions<T> = SignalOptions<T> & {
+  persist: PersistOptions<T>;
+};
+
 export type CreateSignal = {
-  <T>(initialState: T): UpdatableSignal<T>;
-  <T, A>(initialState: T, reducer: (state: T, action: A) => T): EmittableSignal<
-    T,
-    A
-  >;
+  <T>(initialState: T, options: PersistedSignalOptions<T>): UpdatableSignal<T> &
+    PersistedSignal;
+  <T>(initialState: T, options?: SignalOptions<T>): UpdatableSignal<T>;
+  <T, A>(
+    initialState: T,
+    reducer: (state: T, action: A) => T,
+    options: PersistedSignalOptions<T>
+  ): EmittableSignal<T, A> & PersistedSignal;
+  <T, A>(
+    initialState: T,
+    reducer: (state: T, action: A) => T,
+    options?: SignalOptions<T>
+  ): EmittableSignal<T, A>;
+};
+
+export type SchedulerMode = "sync" | "microtask" | "animationFrame";
+
+let batchDepth = 0;
+// callback => the latest args and the callback group, the callbacks are called once the outermost batch finished
+const pendingCallbacks = new Map<Function, [any[], Set<Function>]>();
+let schedulerMode: SchedulerMode = "sync";
+// binding key => the latest update
+const scheduledUpdates = new Map<any, VoidFunction>();
+let flushScheduled = false;
+
+const schedule = (key: any, update: VoidFunction) => {
+  if (schedulerMode === "sync") {
+    update();
+    return;
+  }
+  scheduledUpdates.set(key, update);
+  if (flushScheduled) return;
+  flushScheduled = true;
+  if (schedulerMode === "animationFrame") {
+    nextFrame(flushScheduledUpdates);
+  } else {
+    Promise.resolve().then(flushScheduledUpdates);
+  }
+};
+
+/**
+ * apply all scheduled updates and return the errors of the failed updates.
+ * The failed update must not prevent other updates from being applied
+ */
+const applyScheduledUpdates = () => {
+  flushScheduled = false;
+  const updates = Array.from(scheduledUpdates.values());
+  scheduledUpdates.clear();
+  const errors: unknown[] = [];
+  updates.forEach((update) => {
+    try {
+      update();
+    } catch (error) {
+      errors.push(error);
+    }
+  });
+  return errors;
 };
 
-const createCallbackGroup = () => {
+// there is no caller to throw the errors to
+const flushScheduledUpdates = () =>
+  applyScheduledUpdates().forEach(reportError);
+
+/**
+ * change the way of the bindings that are created by Watcher.bind update the DOM
+ * - sync: update the DOM immediately once the signal changed (default)
+ * - microtask: update the DOM in next microtask
+ * - animationFrame: update the DOM in next animation frame
+ * @param mode
+ */
+export const setScheduler = (mode: SchedulerMode) => {
+  schedulerMode = mode;
+};
+
+/**
+ * apply all scheduled DOM updates immediately.
+ * The first error of the failed updates is thrown once all updates are applied
+ */
+export const flush = () => {
+  const errors = applyScheduledUpdates();
+  if (errors.length) throw errors[0];
+};
+
+/**
+ * run the function and notify the signal listeners once the function finished.
+ * The listener is called only once per batch with the final signal values
+ * ```js
+ * batch(() => {
+ *   firstName.set("John");
+ *   lastName.set("Doe");
+ * });
+ * ```
+ * @param fn
+ */
+export const batch = <T>(fn: () => T): T => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    if (!--batchDepth) {
+      batchDepth++;
+      const errors: unknown[] = [];
+      try {
+        // the callbacks can change other signals, those changes will be added to the pending list
+        while (pendingCallbacks.size) {
+          const entries = Array.from(pendingCallbacks);
+          pendingCallbacks.clear();
+          entries.forEach(([callback, [args, callbacks]]) => {
+            // the callback might be removed (ex: its block is unmounted) after it was queued
+            if (!callbacks.has(callback)) return;
+            // the failed callback must not prevent other callbacks from being called
+            try {
+              callback(...args);
+            } catch (error) {
+              errors.push(error);
+            }
+          });
+        }
+      } finally {
+        batchDepth--;
+      }
+      if (errors.length) throw errors[0];
+    }
+  }
+};
+
+const createCallbackGroup = (batchable = false) => {
   const callbacks = new Set<Function>();
   return {
     add(callback: Function) {
@@ -688,6 +2075,12 @@ const createCallbackGroup = () => {
       };
     },
     call(...args: any[]) {
+      if (batchable && batchDepth) {
+        callbacks.forEach((callback) =>
+          pendingCallbacks.set(callback, [args, callbacks])
+        );
+        return;
+      }
       if (args.length > 2) {
         callbacks.forEach((callback) => callback(...args));
       } else if (args.length === 2) {
@@ -701,28 +2094,169 @@ const createCallbackGroup = () => {
   };
 };
 
-const createSignal: CreateSignal = (
-  initialState: any,
-  reducer?: Function
-): any => {
-  const stateListeners = createCallbackGroup();
-  const actionListeners = createCallbackGroup();
+// the signals that are accessed while computing the value of computed signal
+let currentDependencies: Set<Signal> | undefined;
 
-  let currentState = initialState;
-  const get = () => currentState;
-  const set = (nextState: (() => any) | any) => {
-    if (typeof nextState === "function") {
-      nextState = nextState(currentState);
-    }
-    if (currentState === nextState) return;
-    currentState = nextState;
-    stateListeners.call(currentState);
-  };
+const untrack = <T>(fn: () => T) => {
+  const prevDependencies = currentDependencies;
+  currentDependencies = undefined;
+  try {
+    return fn();
+  } finally {
+    currentDependencies = prevDependencies;
+  }
+};
+
+const getDefaultStorage = (): StorageAdapter | undefined => {
+  try {
+    return typeof localStorage === "undefined" ? undefined : localStorage;
+  } catch {
+    // the storage is not accessible (ex: sandboxed iframe)
+    return undefined;
+  }
+};
+
+const subscribeStorage = (
+  storage: StorageAdapter,
+  key: string,
+  listener: (value: string | null) => void
+) => {
+  if (storage.subscribe) return storage.subscribe(key, listener);
+  if (typeof window === "undefined") return undefined;
+  const handleStorage = (e: StorageEvent) => {
+    if (e.storageArea === storage && e.key === key) listener(e.newValue);
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
+
+const createPersistence = <T>(
+  {
+    key,
+    storage = getDefaultStorage(),
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    version = 0,
+    migrate,
+    debounce = 100,
+    onError,
+  }: PersistOptions<T>,
+  initialState: T,
+  // apply the state that is changed by other sources
+  onChange: (state: T) => void
+) => {
+  // the latest value that is read from or written to the storage
+  let lastValue: string | null = null;
+  let timer: any;
+  let unsubscribe: VoidFunction | undefined;
+  const read = (value: string | null) => {
+    lastValue = value;
+    if (value === null) return initialState;
+    try {
+      const persisted = deserialize(value);
+      if (persisted.version === version) return persisted.state;
+      return migrate
+        ? migrate(persisted.state, persisted.version)
+        : initialState;
+    } catch (error) {
+      onError?.(error);
+      return initialState;
+    }
+  };
+
+  return {
+    restore() {
+      if (!storage) return initialState;
+      const state = read(storage.getItem(key));
+      unsubscribe = subscribeStorage(storage, key, (value) => {
+        if (value === lastValue) return;
+        onChange(read(value));
+      });
+      return state;
+    },
+    save(state: T) {
+      if (!storage) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const value = serialize({ state, version });
+        if (value === lastValue) return;
+        lastValue = value;
+        storage.setItem(key, value);
+      }, debounce);
+    },
+    dispose() {
+      // the pending write must not reach the storage after disposing
+      clearTimeout(timer);
+      unsubscribe?.();
+      unsubscribe = undefined;
+    },
+  };
+};
+
+/**
+ * create a storage adapter that keeps the values in memory (ex: in tests).
+ * The signals that use the same storage and key are synced together
+ */
+export const createMemoryStorage = (): StorageAdapter => {
+  const values = new Map<string, string>();
+  const listeners = createCallbackGroup();
+  return {
+    getItem(key) {
+      return values.get(key) ?? null;
+    },
+    setItem(key, value) {
+      values.set(key, value);
+      listeners.call(key, value);
+    },
+    subscribe(key, listener) {
+      return listeners.add((changedKey: string, value: string) => {
+        if (changedKey === key) listener(value);
+      });
+    },
+  };
+};
+
+// signal => the function that replaces its state without running the reducer or the equality check
+const signalRestorers = new WeakMap<Signal, (state: any) => void>();
+
+const createSignal: CreateSignal = (initialState: any, ...args: any[]): any => {
+  // signal(initialState, reducer, options) or signal(initialState, options)
+  const [reducer, { persist, equals = strictEqual }]: [
+    Function | undefined,
+    SignalOptions<any>
+  ] =
+    typeof args[0] === "function"
+      ? [args[0], args[1] ?? {}]
+      : [undefined, args[0] ?? {}];
+  const stateListeners = createCallbackGroup(true);
+  const actionListeners = createCallbackGroup();
+
+  let instance: Signal;
+  let currentState = initialState;
+  const get = () => {
+    currentDependencies?.add(instance);
+    return currentState;
+  };
+  const set = (nextState: (() => any) | any) => {
+    if (typeof nextState === "function") {
+      nextState = nextState(currentState);
+    }
+    if (equals(currentState, nextState)) return;
+    currentState = nextState;
+    stateListeners.call(currentState);
+  };
+  const restore = (state: any) => {
+    if (state === currentState) return;
+    currentState = state;
+    stateListeners.call(currentState);
+  };
   const toggle = () => set((prev: any) => !prev);
+  const select = (selector: (state: any) => any, equals?: Equals<any>) =>
+    createComputed(() => selector(get()), equals);
   const $set = (setter: Function) => {
     return (...args: any[]) => set(setter(currentState, ...args));
   };
-  const on = (listener: Function, type: string) => {
+  const on = (listener: Function, type?: string) => {
     const listeners = type === "action" ? actionListeners : stateListeners;
     if (type === "state") {
       listener(currentState);
@@ -730,8 +2264,22 @@ const createSignal: CreateSignal = (
     return listeners.add(listener);
   };
 
+  // the persisted signals can be disposed
+  let persisted: PersistedSignal | undefined;
+  if (persist) {
+    const persistence = createPersistence(persist, initialState, set);
+    currentState = persistence.restore();
+    const unsubscribe = stateListeners.add(persistence.save);
+    persisted = {
+      dispose() {
+        unsubscribe();
+        persistence.dispose();
+      },
+    };
+  }
+
   if (!reducer) {
-    return {
+    instance = {
       get state() {
         return get();
       },
@@ -743,20 +2291,163 @@ const createSignal: CreateSignal = (
       toggle,
       $set,
       on,
-    };
+      select,
+      ...persisted,
+    } as UpdatableSignal;
+    signalRestorers.set(instance, restore);
+    return instance;
   }
 
-  return {
+  instance = {
     get state() {
       return get();
     },
     get,
     on,
+    select,
+    ...persisted,
     emit(action: any) {
       actionListeners.call(currentState, action);
       set(reducer(currentState, action));
     },
+  } as EmittableSignal;
+  signalRestorers.set(instance, restore);
+  return instance;
+};
+
+const strictEqual = (prev: any, next: any) => prev === next;
+
+/**
+ * compare the own properties of two objects or the items of two arrays
+ * ```js
+ * const filters = signal({ status: "all" }, { equals: shallowEqual });
+ * ```
+ * @param prev
+ * @param next
+ */
+export const shallowEqual = (prev: any, next: any) => {
+  if (prev === next) return true;
+  if (
+    !prev ||
+    !next ||
+    typeof prev !== "object" ||
+    typeof next !== "object" ||
+    Array.isArray(prev) !== Array.isArray(next)
+  ) {
+    return false;
+  }
+  const prevKeys = Object.keys(prev);
+  if (prevKeys.length !== Object.keys(next).length) return false;
+  return prevKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(next, key) && prev[key] === next[key]
+  );
+};
+
+const createComputed = <T>(
+  compute: () => T,
+  equals: Equals<T> = strictEqual
+): SelectableSignal<T> => {
+  const stateListeners = createCallbackGroup(true);
+  // dependency signal => its value at the last computing
+  let dependencies = new Map<Signal, any>();
+  let unsubscribes = new Map<Signal, VoidFunction>();
+  let listenerCount = 0;
+  let computed = false;
+  let currentState: T;
+  // the state that the listeners have been notified with
+  let notifiedState: T;
+
+  const isStale = () => {
+    if (!computed) return true;
+    return untrack(() => {
+      for (const [dependency, value] of dependencies) {
+        if (dependency.get() !== value) return true;
+      }
+      return false;
+    });
+  };
+
+  const refresh = () => {
+    const prevDependencies = currentDependencies;
+    const nextDependencies = (currentDependencies = new Set<Signal>());
+    try {
+      const nextState = compute();
+      // keep the current state if the next state equals to it, so the listeners are not notified
+      if (!computed || !equals(currentState, nextState)) {
+        currentState = nextState;
+      }
+    } finally {
+      currentDependencies = prevDependencies;
+    }
+    computed = true;
+    dependencies = new Map();
+    untrack(() => {
+      nextDependencies.forEach((dependency) => {
+        dependencies.set(dependency, dependency.get());
+      });
+    });
+    if (listenerCount) subscribe();
+  };
+
+  const onDependencyChange = () => {
+    // the state might be refreshed by get() before the batched notification arrives
+    if (isStale()) refresh();
+    if (notifiedState !== currentState) {
+      notifiedState = currentState;
+      stateListeners.call(currentState);
+    }
+  };
+
+  const subscribe = () => {
+    const nextUnsubscribes = new Map<Signal, VoidFunction>();
+    dependencies.forEach((_, dependency) => {
+      nextUnsubscribes.set(
+        dependency,
+        unsubscribes.get(dependency) ?? dependency.on(onDependencyChange)
+      );
+      unsubscribes.delete(dependency);
+    });
+    // the signals that are no longer used
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+    unsubscribes = nextUnsubscribes;
+  };
+
+  const get = () => {
+    currentDependencies?.add(instance);
+    if (isStale()) refresh();
+    return currentState;
+  };
+
+  const instance: SelectableSignal<T> = {
+    get state() {
+      return get();
+    },
+    get,
+    select(selector, selectorEquals) {
+      return createComputed(() => selector(get()), selectorEquals);
+    },
+    on(listener) {
+      if (!listenerCount++) {
+        if (isStale()) refresh();
+        notifiedState = currentState;
+        subscribe();
+      }
+      const removeListener = stateListeners.add(listener);
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        removeListener();
+        if (!--listenerCount) {
+          unsubscribes.forEach((unsubscribe) => unsubscribe());
+          unsubscribes.clear();
+        }
+      };
+    },
   };
+
+  return instance;
 };
 
 export const setClass = (
@@ -818,6 +2509,262 @@ export const setStyle = (
   Object.assign(element.style, cssProps);
 };
 
+const convertModelValue = (value: string, type: ModelOptions["type"]) => {
+  if (type === "number") {
+    const number = parseFloat(value);
+    return isNaN(number) ? value : number;
+  }
+  if (type === "date") {
+    return value ? new Date(value) : null;
+  }
+  return value;
+};
+
+const writeModelValue = (
+  element: HTMLInputElement,
+  value: any,
+  { type }: ModelOptions
+) => {
+  if (element.type === "checkbox") {
+    element.checked = Array.isArray(value)
+      ? value.some((x) => String(x) === element.value)
+      : !!value;
+    return;
+  }
+  if (element.type === "radio") {
+    element.checked = String(value) === element.value;
+    return;
+  }
+  if (element.tagName === "SELECT" && (element as any).multiple) {
+    const values: any[] = Array.isArray(value) ? value.map(String) : [];
+    Array.from((element as unknown as HTMLSelectElement).options).forEach(
+      (option) => {
+        option.selected = values.includes(option.value);
+      }
+    );
+    return;
+  }
+  const nextValue =
+    type === "date" && value instanceof Date
+      ? value.toISOString().substring(0, 10)
+      : String(value ?? "");
+  // keep the caret position if the value is not changed
+  if (element.value !== nextValue) {
+    element.value = nextValue;
+  }
+};
+
+const readModelValue = (
+  element: HTMLInputElement,
+  prevValue: any,
+  { type }: ModelOptions
+) => {
+  if (element.type === "checkbox") {
+    if (!Array.isArray(prevValue)) return element.checked;
+    const value = convertModelValue(element.value, type);
+    const values = prevValue.filter((x) => String(x) !== element.value);
+    return element.checked ? values.concat(value) : values;
+  }
+  if (element.tagName === "SELECT" && (element as any).multiple) {
+    return Array.from(
+      (element as unknown as HTMLSelectElement).selectedOptions
+    ).map((option) => convertModelValue(option.value, type));
+  }
+  return convertModelValue(element.value, type);
+};
+
+type ListenerEntry = {
+  type: string;
+  listener: ElementEventListener;
+  options?: boolean | AddEventListenerOptions;
+  // the list that calls the listener instead of adding it to the element
+  delegator?: ListDelegator;
+};
+
+// element => binding key => the listeners that are added by the binding
+const elementListeners = new WeakMap<Element, Map<any, ListenerEntry[]>>();
+
+type ListDelegator = {
+  delegate: boolean;
+  listen(type: string): void;
+  dispose(): void;
+};
+
+// the root node of list item => the list that renders the item and the item block
+const listItemOwners = new WeakMap<
+  Node,
+  { delegator: ListDelegator; block: Block<any> }
+>();
+
+// the number of mounted lists that delegate the events of their items
+let delegatingListCount = 0;
+
+// these events do not bubble so the list container must listen them in the capture phase
+const nonBubblingEvents = [
+  "focus",
+  "blur",
+  "mouseenter",
+  "mouseleave",
+  "load",
+  "error",
+  "scroll",
+];
+
+const findListDelegator = (element: Element) => {
+  // the elements cannot be delegated if there is no delegating list
+  if (!delegatingListCount) return undefined;
+  for (let node: Node | null = element; node; node = node.parentNode) {
+    const owner = listItemOwners.get(node);
+    // the nearest list item decides, the items of other lists bind their listeners directly
+    if (owner) return owner.delegator.delegate ? owner.delegator : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * register the list to its container, the events of list items are dispatched by the container if the list delegates them
+ * @param container
+ * @param getIndex return the index of the item block, it is -1 if the block is removed
+ * @param delegate
+ */
+const createListDelegator = (
+  container: Node,
+  getIndex: (block: Block<any>) => number,
+  delegate: boolean
+) => {
+  const types = new Set<string>();
+  const dispatch = (event: Event) => {
+    // the nodes from the event target to the item root element
+    const path: Node[] = [];
+    let node = event.target as Node | null;
+    while (node && node !== container) {
+      path.push(node);
+      node = node.parentNode;
+    }
+    if (!node || !path.length) return;
+    const owner = listItemOwners.get(path[path.length - 1]);
+    // the event target is not rendered by this list (ex: other lists of the same container)
+    if (owner?.delegator !== delegator) return;
+    const block = owner.block;
+    const targets = event.bubbles ? path : path.slice(0, 1);
+    for (const target of targets) {
+      const item: ListItem = {
+        // the index is found only if the listener uses it
+        get index() {
+          return getIndex(block);
+        },
+        controller: block.controller,
+        element: target as Element,
+      };
+      elementListeners.get(target as Element)?.forEach((entries) =>
+        entries.forEach((entry) => {
+          if (entry.delegator === delegator && entry.type === event.type) {
+            entry.listener.call(target, event, item);
+          }
+        })
+      );
+      if (event.cancelBubble) break;
+    }
+  };
+  let disposed = false;
+  const delegator: ListDelegator = {
+    delegate,
+    listen(type) {
+      if (types.has(type)) return;
+      types.add(type);
+      container.addEventListener(
+        type,
+        dispatch,
+        nonBubblingEvents.includes(type)
+      );
+    },
+    dispose() {
+      if (disposed) return;
+      disposed = true;
+      if (delegate) delegatingListCount--;
+      types.forEach((type) =>
+        container.removeEventListener(
+          type,
+          dispatch,
+          nonBubblingEvents.includes(type)
+        )
+      );
+      types.clear();
+    },
+  };
+  if (delegate) delegatingListCount++;
+  return delegator;
+};
+
+const addListeners = (
+  element: Element,
+  key: any,
+  type: string,
+  handlers: ElementEventHandlers
+) => {
+  let bindings = elementListeners.get(element);
+  if (!bindings) {
+    bindings = new Map();
+    elementListeners.set(element, bindings);
+  }
+  let entries = bindings.get(key);
+  if (!entries) {
+    entries = [];
+    bindings.set(key, entries);
+  }
+  (Array.isArray(handlers) ? handlers : [handlers]).forEach((handler) => {
+    if (!handler) return;
+    const entry: ListenerEntry =
+      typeof handler === "function"
+        ? { type, listener: handler }
+        : { type, ...handler };
+    // the delegated handlers cannot apply the listener options
+    const delegator = entry.options ? undefined : findListDelegator(element);
+    if (delegator) {
+      entry.delegator = delegator;
+      delegator.listen(type);
+    } else {
+      element.addEventListener(type, entry.listener, entry.options);
+    }
+    entries!.push(entry);
+  });
+};
+
+/**
+ * remove the listeners that are added by the binding
+ * @param element
+ * @param key
+ * @param type remove the listeners of specified event type only
+ */
+const removeListeners = (element: Element, key: any, type?: string) => {
+  const bindings = elementListeners.get(element);
+  const entries = bindings?.get(key);
+  if (!entries) return;
+  const remainingEntries = entries.filter((entry) => {
+    if (type && entry.type !== type) return true;
+    if (!entry.delegator) {
+      element.removeEventListener(entry.type, entry.listener, entry.options);
+    }
+    return false;
+  });
+  if (remainingEntries.length) {
+    bindings!.set(key, remainingEntries);
+  } else {
+    bindings!.delete(key);
+  }
+};
+
+const setListeners = (
+  element: Element,
+  key: any,
+  type: string,
+  handlers: ElementEventHandlers
+) => {
+  // the new listeners replace the listeners that are added by the same binding previously
+  removeListeners(element, key, type);
+  addListeners(element, key, type, handlers);
+};
+
 export const updateElement = <E extends HTMLElement = HTMLElement>(
   element: E,
   data: ElementData<E>,
@@ -842,6 +2789,22 @@ export const updateElement = <E extends HTMLElement = HTMLElement>(
     ...commonProps
   } = data;
 
+  const events: Record<string, ElementEventHandler[]> = {};
+  const addEvent = (type: string, handlers: ElementEventHandlers) => {
+    events[type] = (events[type] ?? []).concat(handlers);
+  };
+  Object.keys(commonProps).forEach((key) => {
+    if (key.startsWith("on")) {
+      addEvent(key.substring(2), (commonProps as any)[key]);
+      delete (commonProps as any)[key];
+    }
+  });
+  if (on) {
+    Object.entries(on).forEach(([type, handlers]) =>
+      addEvent(type, handlers as ElementEventHandlers)
+    );
+  }
+
   if (props || Object.keys(commonProps).length) {
     Object.assign(element, { ...commonProps, ...props });
   }
@@ -852,11 +2815,9 @@ export const updateElement = <E extends HTMLElement = HTMLElement>(
     });
   }
 
-  if (on) {
-    Object.entries(on).forEach(([key, value]) => {
-      (element as any)["on" + key] = value;
-    });
-  }
+  Object.entries(events).forEach(([type, handlers]) => {
+    setListeners(element, id, type, handlers);
+  });
 
   if (klass) {
     setClass(element, klass, id);
@@ -867,7 +2828,7 @@ export const updateElement = <E extends HTMLElement = HTMLElement>(
   }
 };
 
-const createControllerRef = <C extends Controller, D>(
+const createPortal = <C extends Controller, D>(
   parent: Context,
   id: string,
   blockBuilder: BlockBuilder<C, D>,
@@ -877,9 +2838,12 @@ const createControllerRef = <C extends Controller, D>(
   return createRef(
     id,
     "element",
-    (e) => {
+    (container) => {
+      const templateElement = getDocument().createElement("template");
+      templateElement.setAttribute("data-ref", id);
+      container.appendChild(templateElement);
       block = createBlock(blockBuilder, parent, data);
-      block.mount(e);
+      block.mount(templateElement);
       return () => block.controller;
     },
     () => {
@@ -888,76 +2852,343 @@ const createControllerRef = <C extends Controller, D>(
   );
 };
 
-const createBlock = <C extends Controller, D>(
-  blockBuilder: BlockBuilder<C, D>,
-  parent: Context | undefined,
-  data: D
-) => {
-  let rootElement: Element;
-  let mounted = false;
-  let id = "";
-  let block: Block<C>;
-  let controller: C;
-  const refs: Ref<() => any>[] = [];
-  const effects: Effect[] = [];
-  const onUnmount = new Set<VoidFunction>();
-
-  const context: Context = {
-    get id() {
-      return id;
+const createOutlet = (context: Context, id: string, router: Router) => {
+  let placeholder: Node;
+  let block: Block<any, RouteMatch> | undefined;
+  let blockBuilder: BlockBuilder<any, RouteMatch> | undefined;
+  let blockCount = 0;
+  let unsubscribe: VoidFunction | undefined;
+  const routes = routerBlocks.get(router)!;
+  const show = (match: RouteMatch) => {
+    const nextBlockBuilder = match.route ? routes[match.route] : undefined;
+    // the same block receives the new route if it can handle the update
+    if (block && nextBlockBuilder === blockBuilder && block.controller.update) {
+      block.update(match);
+      return;
+    }
+    block?.unmount();
+    block = undefined;
+    blockBuilder = nextBlockBuilder;
+    if (!blockBuilder) return;
+    block = createBlock(blockBuilder, context, match);
+    // block ids must be the same on both server and client sides
+    const blockId = id + "-" + (blockCount++).toString(36);
+    const existingElement =
+      hydrationRoot &&
+      collectRenderedBlocks(placeholder.parentNode).get(blockId);
+    if (existingElement) {
+      block.mount(existingElement as Element);
+      return;
+    }
+    const templateElement = getDocument().createElement("template");
+    templateElement.setAttribute("data-ref", blockId);
+    insertBefore(placeholder, templateElement);
+    block.mount(templateElement);
+  };
+  return createRef(
+    id,
+    "element",
+    (element) => {
+      // the placeholder is rendered already
+      if (element.nodeType === 8) {
+        placeholder = element;
+      } else {
+        placeholder = createComment(id);
+        element.before(placeholder);
+        element.remove();
+      }
+      return () => {};
     },
-    parent,
-    on(signal: Signal | Signal[], listener?: Listener<any>): any {
-      if (listener) {
-        const isMultipleSignals = Array.isArray(signal);
-        const signals = isMultipleSignals ? signal : [signal];
-        const listenerWrapper =
-          signals.length === 1
-            ? () => {
-                listener(signals[0].get());
-              }
-            : () => {
-                const values = signals.map((signal) => signal.get());
-                listener(isMultipleSignals ? values : values[0]);
-              };
-        const removeListeners = signals.map((signal) =>
-          signal.on(listenerWrapper)
-        );
-        const removeListenerWrapper = () => {
-          onUnmount.delete(removeListenerWrapper);
-          removeListeners.forEach((x) => x());
-          removeListeners.length = 0;
-        };
-        onUnmount.add(removeListenerWrapper);
-
-        // first run
-        listenerWrapper();
+    () => {
+      unsubscribe?.();
+      block?.unmount();
+      block = undefined;
+      placeholder.parentNode?.removeChild(placeholder);
+    },
+    () => {
+      show(router.route.get());
+      unsubscribe = router.route.on(show);
+    }
+  );
+};
 
-        return removeListenerWrapper;
+const createSlot = (
+  id: string,
+  slot: SlotContent | undefined,
+  fallback?: string
+) => {
+  let nodes: Node[] = [];
+  return createRef(
+    id,
+    "element",
+    (element) => {
+      // the slot content is rendered between the markers
+      if (hydrationRoot && element.nodeType === 8) {
+        let node: Node | null = element;
+        while (
+          node &&
+          !(node.nodeType === 8 && (node as Comment).data === "/" + id)
+        ) {
+          nodes.push(node);
+          node = node.nextSibling;
+        }
+        if (!node) {
+          throw new Error(`Hydration mismatch. The slot ${id} is not rendered`);
+        }
+        nodes.push(node);
+        if (slot) {
+          hydrateRefs(id, nodes, slot.refs, createStaticContent(slot.template));
+        }
+        return () => {};
       }
-      const bind = (updater: Function) => {
-        const id = generateRefId(context, refs.length);
-        const cache = {};
-        const ref = createRef(id, "attribute", (element) => {
-          context.on(signal, (value) => {
-            const data = updater(value, element, cache);
-            if (!data) return;
-            updateElement(element as HTMLElement, data, id);
-          });
+      const template = slot?.template ?? fallback;
+      const contentNodes: Node[] = [];
+      if (template?.trim()) {
+        const content = createStaticContent(template);
+        contentNodes.push(
+          ...(content.nodeType === 11
+            ? Array.from(content.childNodes)
+            : [content])
+        );
+      }
+      nodes = [createComment(id), ...contentNodes, createComment("/" + id)];
+      moveNodes(nodes, element);
+      element.parentNode?.removeChild(element);
+      // the elements of the slot are marked for hydrating
+      if (serverRendering) {
+        contentNodes.forEach((node) => {
+          if (isElement(node)) node.setAttribute("data-ref", id);
         });
-        refs.push(ref);
-        return ref;
+      }
+      if (slot) mountRefs(contentNodes, slot.refs);
+      return () => {};
+    },
+    () => {
+      // the slotted refs cannot work without their elements
+      slot?.refs.forEach((ref) => ref.unmount());
+      removeNodes(nodes);
+      nodes = [];
+    }
+  );
+};
+
+const resolvePortalTarget = (target: Element | string) => {
+  if (typeof target !== "string") return target;
+  const element = getDocument().querySelector(target);
+  if (!element) {
+    throw new Error(`Portal target ${target} is not found`);
+  }
+  return element;
+};
+
+const createControllerRef = <C extends Controller, D>(
+  parent: Context,
+  id: string,
+  blockBuilder: BlockBuilder<C, D>,
+  data: D,
+  options?: BlockOptions
+) => {
+  let block: Block<C>;
+  return createRef(
+    id,
+    "element",
+    (e) => {
+      block = createBlock(blockBuilder, parent, data, options);
+      if (e.tagName === "TEMPLATE") {
+        e.setAttribute("data-ref", id);
+      }
+      block.mount(e);
+      return () => block.controller;
+    },
+    () => {
+      block.unmount();
+    }
+  );
+};
+
+const isPromiseLike = (value: any): value is Promise<any> =>
+  typeof value?.then === "function";
+
+/**
+ * report the error that cannot be thrown to the caller (ex: the rejection of async block builder)
+ * @param error
+ */
+const reportError = (error: unknown) => {
+  const globalReportError = (globalThis as any).reportError;
+  if (typeof globalReportError === "function") {
+    globalReportError(error);
+  } else {
+    console.error(error);
+  }
+};
+
+/**
+ * create an element from the template that does not contain any ref.
+ * An empty template element is used as the placeholder if no template specified
+ * @param template
+ */
+const createStaticContent = (template?: string) =>
+  template
+    ? createTemplate(getDocument().createElement("template"), template).clone()
+    : getDocument().createElement("template");
+
+// context => provided values
+const providedValues = new WeakMap<Context, Map<Key<any>, any>>();
+// context => the handler that handles the errors of its descendant blocks
+const errorHandlers = new WeakMap<Context, ErrorHandler>();
+// root context => the handler that handles the errors that are not caught by any block
+const rootErrorHandlers = new WeakMap<Context, (error: unknown) => void>();
+
+/**
+ * pass the error to the nearest error handler of ancestor blocks and return the fallback template.
+ * The error will be re-thrown if there is no error handler
+ * @param context
+ * @param error
+ */
+const dispatchError = (context: Context, error: unknown) => {
+  let current = context;
+  while (current.parent) {
+    current = current.parent;
+    const handler = errorHandlers.get(current);
+    if (handler) return handler(error) || "";
+  }
+  const rootHandler = rootErrorHandlers.get(current);
+  if (rootHandler) {
+    rootHandler(error);
+    return "";
+  }
+  throw error;
+};
+
+const createBlock = <C extends Controller, D>(
+  blockBuilder: BlockBuilder<C, D>,
+  parent: Context | undefined,
+  data: D,
+  { onError, loading, error: errorTemplate, slots, onRender }: BlockOptions = {}
+) => {
+  // the root element or the start marker of the fragment
+  let rootNode: Node | undefined;
+  // the end marker of the fragment
+  let endNode: Node | undefined;
+  let mounted = false;
+  let mounting = false;
+  let unmounted = false;
+  let id = "";
+  let block: Block<C, D>;
+  let controller: C;
+  const refs: Ref<() => any>[] = [];
+  // the portal refs and their target elements
+  const portals: [Ref<() => any>, Element | string][] = [];
+  const effects: Effect[] = [];
+  // the refs that are rendered inside the slots of child blocks, they are mounted by those slots
+  const slottedRefs = new Set<Ref<() => any>>();
+  // the scopes of the styles that are used by this block
+  const scopes: string[] = [];
+  const onUnmount = new Set<VoidFunction>();
+
+  const context: Context = {
+    get id() {
+      return id;
+    },
+    parent,
+    on(signal: Signal | Signal[], listener?: Listener<any>): any {
+      if (listener) {
+        const isMultipleSignals = Array.isArray(signal);
+        const signals = isMultipleSignals ? signal : [signal];
+        const callListener =
+          signals.length === 1
+            ? () => {
+                listener(signals[0].get());
+              }
+            : () => {
+                const values = signals.map((signal) => signal.get());
+                listener(isMultipleSignals ? values : values[0]);
+              };
+        const listenerWrapper = () => {
+          try {
+            callListener();
+          } catch (error) {
+            // the errors of mounting phase are handled by block.mount()
+            if (mounting) throw error;
+            fail(error);
+          }
+        };
+        const removeListeners = signals.map((signal) =>
+          signal.on(listenerWrapper)
+        );
+        const removeListenerWrapper = () => {
+          onUnmount.delete(removeListenerWrapper);
+          removeListeners.forEach((x) => x());
+          removeListeners.length = 0;
+        };
+        onUnmount.add(removeListenerWrapper);
+
+        // first run
+        listenerWrapper();
+
+        return removeListenerWrapper;
+      }
+      const bind = (updater: Function) => {
+        const id = generateRefId(context, refs.length);
+        const cache = {};
+        const ref = createRef(
+          id,
+          "attribute",
+          (element) => {
+            const update = (value: any) => {
+              const data = updater(value, element, cache);
+              if (!data) return;
+              updateElement(element as HTMLElement, data, id);
+            };
+            let initialized = false;
+            context.on(signal, (value) => {
+              // the initial update must be applied before the block is mounted
+              if (!initialized) {
+                initialized = true;
+                update(value);
+                return;
+              }
+              // the scheduled update is applied outside the listener, its errors must be handled by this block
+              schedule(cache, () => {
+                try {
+                  update(value);
+                } catch (error) {
+                  fail(error);
+                }
+              });
+            });
+          },
+          () => {
+            // the scheduled update must not be applied to the unmounted element
+            scheduledUpdates.delete(cache);
+          }
+        );
+        refs.push(ref);
+        return ref;
       };
 
-      const toggle = (reverse: boolean, transform?: Function) => {
+      const toggle = (
+        reverse: boolean,
+        transform?: Function | ToggleOptions,
+        options?: ToggleOptions
+      ) => {
+        if (transform && typeof transform !== "function") {
+          options = transform;
+          transform = undefined;
+        }
         const id = generateRefId(context, refs.length);
-        const toggle = createToggle(id, true, () => {
-          context.on(signal, (value) => {
-            let visible = transform ? transform(value) : value;
-            if (reverse) visible = !visible;
-            toggle.visible = visible;
-          });
-        });
+        const toggle = createToggle(
+          id,
+          true,
+          () => {
+            context.on(signal, (value) => {
+              let visible = transform ? (transform as Function)(value) : value;
+              if (reverse) visible = !visible;
+              toggle.visible = visible;
+            });
+          },
+          options
+        );
         refs.push(toggle.ref);
         return toggle.ref;
       };
@@ -976,14 +3207,66 @@ const createBlock = <C extends Controller, D>(
           }
           return bind((html: any) => ({ html }));
         },
-        show(transform?: Function) {
-          return toggle(false, transform);
+        show(transform?: Function | ToggleOptions, options?: ToggleOptions) {
+          return toggle(false, transform, options);
         },
-        hide(transform?: Function) {
-          return toggle(true, transform);
+        hide(transform?: Function | ToggleOptions, options?: ToggleOptions) {
+          return toggle(true, transform, options);
+        },
+        model(options: ModelOptions = {}) {
+          const updatableSignal = signal as UpdatableSignal;
+          if (typeof updatableSignal.set !== "function") {
+            throw new Error("The model binding requires an updatable signal");
+          }
+          const id = generateRefId(context, refs.length);
+          const ref = createRef(id, "attribute", (element) => {
+            const formElement = element as HTMLInputElement;
+            context.on(signal, (value) =>
+              writeModelValue(formElement, value, options)
+            );
+            const eventName =
+              options.lazy ||
+              formElement.tagName === "SELECT" ||
+              formElement.type === "checkbox" ||
+              formElement.type === "radio"
+                ? "change"
+                : "input";
+            const handleChange = () => {
+              updatableSignal.set(
+                readModelValue(formElement, updatableSignal.get(), options)
+              );
+            };
+            formElement.addEventListener(eventName, handleChange);
+            onUnmount.add(() =>
+              formElement.removeEventListener(eventName, handleChange)
+            );
+          });
+          refs.push(ref);
+          return ref;
         },
       };
     },
+    provide(key, value) {
+      let values = providedValues.get(context);
+      if (!values) {
+        values = new Map();
+        providedValues.set(context, values);
+      }
+      values.set(key, value);
+    },
+    inject(key: Key<any>, ...args: any[]) {
+      let current: Context | undefined = context;
+      while (current) {
+        const values = providedValues.get(current);
+        if (values?.has(key)) return values.get(key);
+        current = current.parent;
+      }
+      if (args.length) return args[0];
+      throw new Error(`No value provided for the key ${key.name}`);
+    },
+    catch(handler) {
+      errorHandlers.set(context, handler);
+    },
     use(...args: any[]): any {
       // is use(extensions[])
       if (Array.isArray(args[0])) {
@@ -995,15 +3278,21 @@ const createBlock = <C extends Controller, D>(
       const extension: Extension = args[0];
       return extension(context);
     },
-    toggle(visible) {
+    toggle(visible, options) {
       const id = generateRefId(context, refs.length);
-      const toggle = createToggle(id, visible);
+      const toggle = createToggle(id, visible, undefined, options);
       refs.unshift(toggle.ref);
       return toggle;
     },
-    list(blockBuilder: BlockBuilder, initialData?: any) {
+    list(blockBuilder: BlockBuilder, initialData?: any, options?: ListOptions) {
       const id = generateRefId(context, refs.length);
-      const list = createList(context, id, blockBuilder, initialData);
+      const list = createList(context, id, blockBuilder, initialData, options);
+      refs.push(list.ref);
+      return list;
+    },
+    virtualList(blockBuilder, options) {
+      const id = generateRefId(context, refs.length);
+      const list = createVirtualList(context, id, blockBuilder, options);
       refs.push(list.ref);
       return list;
     },
@@ -1013,6 +3302,41 @@ const createBlock = <C extends Controller, D>(
       }
       effects.push(effect);
     },
+    styles(...stylesheets) {
+      if (mounted) {
+        throw new Error("Cannot use styles after block mounting");
+      }
+      scopes.push(...stylesheets.map((x) => x.scope));
+    },
+    outlet() {
+      const id = generateRefId(context, refs.length);
+      const ref = createOutlet(context, id, context.inject(routerKey));
+      refs.push(ref);
+      return ref;
+    },
+    slot(name, fallback) {
+      const id = generateRefId(context, refs.length);
+      const ref = createSlot(id, slots?.[name], fallback);
+      refs.push(ref);
+      return ref;
+    },
+    portal(target: Element | string, blockBuilder: BlockBuilder, data?: any) {
+      if (unmounted) {
+        throw new Error("Cannot use portal after block unmounting");
+      }
+      const portal = createPortal(
+        context,
+        context.id + "-p" + portals.length.toString(36),
+        blockBuilder,
+        data
+      );
+      portals.push([portal, target]);
+      // the portals that are created after mounting are mounted immediately
+      if (mounted && !serverRendering) {
+        portal.mount(resolvePortalTarget(target));
+      }
+      return portal;
+    },
     ref(...args: any[]): any {
       const id = generateRefId(context, refs.length);
       let ref: Ref<() => any>;
@@ -1020,7 +3344,12 @@ const createBlock = <C extends Controller, D>(
         // element ref
         ref = createRef(id, "attribute");
       } else if (typeof args[0] === "function") {
-        ref = createControllerRef(context, id, args[0], args[1]);
+        // ref(blockBuilder, data, options)
+        const { slots, ...options }: BlockRefOptions = args[2] ?? {};
+        ref = createControllerRef(context, id, args[0], args[1], {
+          ...options,
+          slots: slots && createSlots(slots),
+        });
       }
       // ref(updateProps)
       else if (args[0] && typeof args[0] === "object") {
@@ -1035,71 +3364,1309 @@ const createBlock = <C extends Controller, D>(
     },
   };
 
+  if (onError) {
+    rootErrorHandlers.set(context, onError);
+  }
+
+  /**
+   * take the refs that are rendered inside the slot templates
+   * @param templates
+   */
+  const createSlots = (templates: Record<string, string>) => {
+    const result: Record<string, SlotContent> = {};
+    Object.keys(templates).forEach((name) => {
+      const template = templates[name];
+      const slotRefs = refs.filter(
+        (ref) =>
+          !slottedRefs.has(ref) &&
+          new RegExp(`${generateRefAttribute(ref.id).trim()}(?![\\w-])`).test(
+            template
+          )
+      );
+      slotRefs.forEach((ref) => slottedRefs.add(ref));
+      result[name] = { template, refs: slotRefs };
+    });
+    return result;
+  };
+
+  const cleanup = () => {
+    refs.forEach((ref) => ref.unmount());
+    portals.forEach(([portal]) => portal.unmount());
+    portals.length = 0;
+    onUnmount.forEach((x) => x());
+    onUnmount.clear();
+  };
+
+  /**
+   * unmount the failed block and render the fallback template in its place
+   * @param error
+   * @param anchor the node that will be replaced with the fallback element
+   */
+  const fail = (error: unknown, anchor?: Node) => {
+    cleanup();
+    let fallbackTemplate: string;
+    try {
+      fallbackTemplate = dispatchError(context, error);
+    } catch (e) {
+      removeNodes(getNodes());
+      throw e;
+    }
+    replaceContent(createStaticContent(fallbackTemplate), anchor);
+    controller = controller ?? ({} as C);
+  };
+
+  // the async errors that are not handled by any block must not be rejected without handlers
+  const failAsync = (error: unknown) => {
+    try {
+      fail(error);
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  const getNodes = () =>
+    endNode ? getRangeNodes(rootNode!, endNode) : rootNode ? [rootNode] : [];
+
+  /**
+   * render the content in place of the anchor node and the current nodes of the block
+   * @param content
+   * @param anchor
+   */
+  const replaceContent = (
+    content: Element | DocumentFragment,
+    anchor: Node | undefined = getNodes()[0]
+  ) => {
+    const prevNodes = getNodes();
+    let startNode: Node = content;
+    let lastNode: Node | undefined;
+    // the fragment nodes are wrapped by the markers
+    if (content.nodeType === 11) {
+      startNode = createComment(id);
+      lastNode = createComment("/" + id);
+      content.insertBefore(startNode, content.firstChild);
+      content.appendChild(lastNode);
+    }
+    if (anchor?.parentNode) {
+      insertBefore(anchor, content);
+    }
+    anchor?.parentNode?.removeChild(anchor);
+    removeNodes(prevNodes);
+    rootNode = startNode;
+    endNode = lastNode;
+    onRender?.(getNodes());
+  };
+
+  const mount = (templateElement: Element) => {
+    // the rendered element is passed while hydrating
+    const hydrating = !!hydrationRoot && templateElement.tagName !== "TEMPLATE";
+    if (templateElement.tagName !== "TEMPLATE" && !hydrating) {
+      throw new Error("Invalid element");
+    }
+    // the fragment block is hydrated from its start marker
+    id =
+      templateElement.nodeType === 8
+        ? (templateElement as unknown as Comment).data
+        : (templateElement.getAttribute("data-ref") as string);
+    // run block builder logic
+    const result = blockBuilder(context, data);
+    if (isPromiseLike(result)) {
+      mountAsync(templateElement, result, hydrating);
+      return;
+    }
+    mountResult(result, templateElement, hydrating);
+  };
+
+  // the end marker of the rendered fragment that starts with the node
+  const findEndNode = (startNode: Node) => {
+    let node = startNode.nextSibling;
+    while (
+      node &&
+      !(node.nodeType === 8 && (node as Comment).data === "/" + id)
+    ) {
+      node = node.nextSibling;
+    }
+    return node ?? undefined;
+  };
+
+  const mountAsync = (
+    templateElement: Element,
+    promise: Promise<C | string>,
+    hydrating: boolean
+  ) => {
+    controller = {} as C;
+    if (hydrating) {
+      // the rendered loading content is kept until the builder is resolved
+      rootNode = templateElement;
+      endNode =
+        templateElement.nodeType === 8
+          ? findEndNode(templateElement)
+          : undefined;
+    } else {
+      replaceContent(createStaticContent(loading), templateElement);
+      // the loading content must be marked for hydrating
+      if (serverRendering) markRenderedNodes();
+    }
+    promise.then(
+      (result) => {
+        // the block is unmounted before the builder is resolved
+        if (unmounted) return;
+        mounting = true;
+        try {
+          // the result is rendered in place of the loading content
+          mountResult(result);
+        } catch (error) {
+          failAsync(error);
+        } finally {
+          mounting = false;
+        }
+      },
+      (error) => {
+        if (unmounted) return;
+        if (errorTemplate === undefined) {
+          failAsync(error);
+          return;
+        }
+        try {
+          replaceContent(
+            createStaticContent(
+              typeof errorTemplate === "function"
+                ? errorTemplate(error)
+                : errorTemplate
+            )
+          );
+        } catch (e) {
+          failAsync(e);
+        }
+      }
+    );
+  };
+
+  // the slotted refs are not rendered by this block template
+  const getOwnRefs = () =>
+    slottedRefs.size ? refs.filter((ref) => !slottedRefs.has(ref)) : refs;
+
+  // the elements of child blocks are marked with their own ids
+  const markRenderedNodes = () =>
+    getNodes().forEach((node) => {
+      if (isElement(node) && !node.hasAttribute("data-ref")) {
+        node.setAttribute("data-ref", id);
+      }
+    });
+
+  const mountResult = (
+    result: C | string,
+    templateElement?: Element,
+    hydrating = false
+  ) => {
+    // block builder result can be string (a template) or block controller object
+    let templateString: string;
+    if (typeof result === "string") {
+      templateString = result;
+      controller = {} as C;
+    } else {
+      templateString = result.template;
+      controller = result;
+    }
+    const template = getTemplate(blockBuilder, templateString);
+    if (hydrating) {
+      const expectedContent = template.clone();
+      // the hidden content of toggled templates is not rendered, it must have the scope classes as well
+      if (scopes.length) addScopeClasses(expectedContent, scopes);
+      if (template.fragment) {
+        const lastNode = findEndNode(templateElement!);
+        if (templateElement!.nodeType !== 8 || !lastNode) {
+          throw new Error(
+            `Hydration mismatch. The fragment block ${id} is not rendered`
+          );
+        }
+        endNode = lastNode;
+      } else if (
+        (expectedContent as Element).tagName !== templateElement!.tagName
+      ) {
+        throw new Error(
+          `Hydration mismatch. The root element of block ${id} should be ${
+            (expectedContent as Element).tagName
+          } but got ${templateElement!.nodeName}`
+        );
+      }
+      rootNode = templateElement;
+      mounted = true;
+      onRender?.(getNodes());
+      hydrateRefs(id, getNodes(), getOwnRefs(), expectedContent);
+    } else {
+      const content = template.clone();
+      // the scope classes must be added before the class bindings of refs keep the current classes
+      if (scopes.length) addScopeClasses(content, scopes);
+      replaceContent(content, templateElement);
+      mounted = true;
+      // the rendered top-level elements must be marked for hydrating
+      if (serverRendering) markRenderedNodes();
+      // the new block is rendered from the template, no need to hydrate its descendants
+      const prevHydrationRoot = hydrationRoot;
+      hydrationRoot = undefined;
+      try {
+        mountRefs(getNodes(), getOwnRefs());
+      } finally {
+        hydrationRoot = prevHydrationRoot;
+      }
+      // the refs can render other top-level elements (ex: the content of toggled template)
+      if (serverRendering) markRenderedNodes();
+    }
+    // effects and portals are for the browser only, the styles are rendered with the markup
+    if (serverRendering) {
+      scopes.forEach((scope) => renderedScopes?.add(scope));
+      return;
+    }
+    scopes.forEach((scope) =>
+      onUnmount.add(injectStyles(scope, getNodes()[0]))
+    );
+    portals.forEach(([portal, target]) =>
+      portal.mount(resolvePortalTarget(target))
+    );
+    // call all effects
+    effects.forEach((effect) => {
+      const unmountHandler = effect(context);
+      if (unmountHandler) onUnmount.add(unmountHandler);
+    });
+  };
+
   block = {
     get rootElement() {
-      return rootElement;
+      return getNodes().find(isElement);
+    },
+    get nodes() {
+      return getNodes();
     },
     mount(templateElement) {
-      if (templateElement.tagName !== "TEMPLATE") {
-        throw new Error("Invalid element");
-      }
-      id = templateElement.getAttribute("data-ref") as string;
-      // run block builder logic
-      const result = blockBuilder(context, data);
-      // block builder result can be string (a template) or block controller object
-      let templateString: string;
-      if (typeof result === "string") {
-        templateString = result;
-        controller = {} as C;
-      } else {
-        templateString = result.template;
-        controller = result;
+      mounting = true;
+      try {
+        mount(templateElement);
+      } catch (error) {
+        // the template element is still in the DOM if the block builder failed
+        fail(error, templateElement.parentNode ? templateElement : undefined);
+      } finally {
+        mounting = false;
       }
-      rootElement = createTemplate(templateElement, templateString).clone();
-      templateElement.before(rootElement);
-      templateElement.remove();
-      mounted = true;
-      mountRefs(rootElement, refs);
-      // call all effects
-      effects.forEach((effect) => {
-        const unmountHandler = effect(context);
-        if (unmountHandler) onUnmount.add(unmountHandler);
-      });
     },
     unmount() {
-      rootElement.remove();
-      refs.forEach((ref) => ref.unmount());
-      onUnmount.forEach((x) => x());
+      unmounted = true;
+      mounted = false;
+      removeNodes(getNodes());
+      cleanup();
     },
     get controller() {
       return controller;
     },
+    get data() {
+      return data;
+    },
+    update(nextData) {
+      data = nextData;
+      controller.update?.(data);
+    },
   };
 
   return block;
 };
 
+export type RenderOptions = {
+  /**
+   * receive the errors that are not caught by any block
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * the handle of the app that is rendered into the container
+ */
+export type App<H, D = void> = {
+  readonly controller: H;
+  /**
+   * unmount the root block and release all its subscriptions and effects
+   */
+  unmount(): void;
+  /**
+   * re-render the root block with new data
+   * @param data
+   */
+  update(data: D): void;
+};
+
+// the type of data is inferred from the block builder only
+type NoInfer<T> = [T][T extends any ? 0 : never];
+
 export type Render = {
   <H extends Controller, D>(
     container: Element,
     blockBuilder: BlockBuilder<H, D>,
-    data: D
-  ): H;
-  <H extends Controller>(container: Element, blockBuilder: BlockBuilder<H>): H;
+    data: NoInfer<D>,
+    options?: RenderOptions
+  ): App<H, D>;
+  <H extends Controller>(
+    container: Element,
+    blockBuilder: BlockBuilder<H>
+  ): App<H>;
 };
 
-export const render: Render = (
-  container: Element,
+const mountRoot = (
+  container: Element | ShadowRoot,
   blockBuilder: BlockBuilder,
-  param?: any
+  data: any,
+  options?: RenderOptions
 ) => {
   container.innerHTML = generateTemplateHTML("root");
-  const block = createBlock(blockBuilder, undefined, param);
+  const block = createBlock(blockBuilder, undefined, data, options);
+  container.firstElementChild!.setAttribute("data-ref", "root");
   block.mount(container.firstElementChild!);
-  return block.controller;
+  return block;
 };
 
-export const html = (template: TemplateStringsArray, ...args: any[]) =>
-  String.raw(template, ...args);
+// container => the app that is rendered into the container
+const mountedApps = new WeakMap<Element, App<any, any>>();
 
-export const signal = createSignal;
+const createApp = (
+  container: Element,
+  mount: (data: any) => Block<any>,
+  data: any
+) => {
+  // the previous app of the container must release its subscriptions and effects
+  mountedApps.get(container)?.unmount();
+  let block = mount(data);
+  const app: App<any, any> = {
+    get controller() {
+      return block.controller;
+    },
+    unmount() {
+      if (mountedApps.get(container) !== app) return;
+      mountedApps.delete(container);
+      block.unmount();
+    },
+    update(nextData) {
+      if (mountedApps.get(container) !== app) {
+        throw new Error("Cannot update the app that has been unmounted");
+      }
+      block.unmount();
+      block = mount(nextData);
+    },
+  };
+  mountedApps.set(container, app);
+  return app;
+};
+
+/**
+ * render the block into the container and return the app handle.
+ * The previous app of the container will be unmounted
+ * ```js
+ * const app = render(document.body, App, { user });
+ * app.update({ user: nextUser });
+ * app.unmount();
+ * ```
+ */
+export const render: Render = (
+  container: Element,
+  blockBuilder: BlockBuilder,
+  param?: any,
+  options?: RenderOptions
+) => {
+  return createApp(
+    container,
+    (data) => mountRoot(container, blockBuilder, data, options),
+    param
+  );
+};
+
+export type RenderToString = {
+  <H extends Controller, D>(blockBuilder: BlockBuilder<H, D>, data: D): string;
+  <H extends Controller>(blockBuilder: BlockBuilder<H>): string;
+};
+
+export type Hydrate = {
+  <H extends Controller, D>(
+    container: Element,
+    blockBuilder: BlockBuilder<H, D>,
+    data: NoInfer<D>,
+    options?: RenderOptions
+  ): App<H, D>;
+  <H extends Controller>(
+    container: Element,
+    blockBuilder: BlockBuilder<H>
+  ): App<H>;
+};
+
+/**
+ * attach refs, listeners and signal bindings to the markup that is rendered by renderToString
+ * instead of re-rendering the container.
+ * An error will be thrown if the rendered markup does not match the block templates
+ * ```js
+ * hydrate(document.getElementById("app"), App, { user });
+ * ```
+ */
+export const hydrate: Hydrate = (
+  container: Element,
+  blockBuilder: BlockBuilder,
+  data?: any,
+  options?: RenderOptions
+) => {
+  const rootNode = findRenderedBlock(Array.from(container.childNodes), "root");
+  if (!rootNode) {
+    throw new Error(
+      "Hydration mismatch. The container does not have any rendered block"
+    );
+  }
+  let hydrated = false;
+  return createApp(
+    container,
+    (data) => {
+      // the app is re-rendered if it is updated after hydrating
+      if (hydrated) return mountRoot(container, blockBuilder, data, options);
+      hydrated = true;
+      const prevHydrationRoot = hydrationRoot;
+      hydrationRoot = container;
+      try {
+        const block = createBlock(blockBuilder, undefined, data, options);
+        block.mount(rootNode as Element);
+        return block;
+      } finally {
+        hydrationRoot = prevHydrationRoot;
+      }
+    },
+    data
+  );
+};
+
+export type ElementOptions = {
+  /**
+   * the observed attributes, they are passed to the block as the signals of camel-cased names (ex: initial-count => initialCount)
+   */
+  attributes?: string[];
+  /**
+   * the element properties, they are passed to the block as the signals of the same names.
+   * The attribute and property that have the same name share the signal
+   */
+  props?: string[];
+  /**
+   * mount the block into the shadow root of the element
+   */
+  shadow?: boolean | ShadowRootInit;
+};
+
+// custom element => the signals of its attributes/props and the mounted block
+const customElementStates = new WeakMap<
+  HTMLElement,
+  { data: Record<string, UpdatableSignal>; block?: Block<any> }
+>();
+
+const toCamelCase = (name: string) =>
+  name.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * register the custom element that mounts the block once it is connected and unmounts the block once it is disconnected.
+ * The block receives the signals of the attributes and props as its data,
+ * the controller methods are exposed on the element
+ * ```js
+ * const Counter = ({ on }, { initialCount }) => ({ template: `<h1 ${on(initialCount).text()}></h1>`, reset() {} });
+ *
+ * defineElement("my-counter", Counter, { attributes: ["initial-count"] });
+ * // <my-counter initial-count="1"></my-counter>
+ * document.querySelector("my-counter").reset();
+ * ```
+ * @param name
+ * @param blockBuilder
+ * @param options
+ */
+export const defineElement = <
+  C extends Controller,
+  D extends Record<string, Signal>
+>(
+  name: string,
+  blockBuilder: BlockBuilder<C, D>,
+  { attributes = [], props = [], shadow }: ElementOptions = {}
+): CustomElementConstructor => {
+  const keys = Array.from(new Set(attributes.map(toCamelCase).concat(props)));
+  const getState = (element: HTMLElement) => {
+    let state = customElementStates.get(element);
+    if (!state) {
+      const data: Record<string, UpdatableSignal> = {};
+      keys.forEach((key) => {
+        data[key] = createSignal<any>(props.includes(key) ? undefined : null);
+      });
+      state = { data };
+      customElementStates.set(element, state);
+    }
+    return state;
+  };
+
+  const CustomElement = class extends HTMLElement {
+    static get observedAttributes() {
+      return attributes;
+    }
+
+    constructor() {
+      super();
+      const { data } = getState(this);
+      // the props might be assigned before the element is defined
+      props.forEach((prop) => {
+        if (!Object.prototype.hasOwnProperty.call(this, prop)) return;
+        const value = (this as any)[prop];
+        delete (this as any)[prop];
+        data[prop].set(() => value);
+      });
+    }
+
+    connectedCallback() {
+      const state = getState(this);
+      if (state.block) return;
+      const container = shadow
+        ? this.shadowRoot ??
+          this.attachShadow(shadow === true ? { mode: "open" } : shadow)
+        : this;
+      state.block = mountRoot(
+        container,
+        blockBuilder as BlockBuilder,
+        state.data
+      );
+      const controller = state.block.controller;
+      Object.keys(controller).forEach((key) => {
+        if (key === "template" || typeof controller[key] !== "function") {
+          return;
+        }
+        Object.defineProperty(this, key, {
+          configurable: true,
+          value: (...args: any[]) => controller[key](...args),
+        });
+      });
+    }
+
+    disconnectedCallback() {
+      const state = getState(this);
+      const block = state.block;
+      if (!block) return;
+      state.block = undefined;
+      Object.keys(block.controller).forEach((key) => {
+        delete (this as any)[key];
+      });
+      block.unmount();
+    }
+
+    attributeChangedCallback(
+      attribute: string,
+      _: string | null,
+      value: string | null
+    ) {
+      getState(this).data[toCamelCase(attribute)].set(value);
+    }
+  };
+
+  props.forEach((prop) => {
+    Object.defineProperty(CustomElement.prototype, prop, {
+      get(this: HTMLElement) {
+        return getState(this).data[prop].state;
+      },
+      set(this: HTMLElement, value: any) {
+        // the value might be a function (ex: callback prop)
+        getState(this).data[prop].set(() => value);
+      },
+    });
+  });
+
+  customElements.define(name, CustomElement);
+  return CustomElement;
+};
+
+/**
+ * render the block to HTML string without a live DOM (ex: on the server side).
+ * The block builders, initial element data, signal bindings and initial list items are applied
+ * but the effects are not called
+ * ```js
+ * const html = renderToString(App, { user });
+ * ```
+ */
+export const renderToString: RenderToString = (
+  blockBuilder: BlockBuilder,
+  data?: any
+) => {
+  const prevDocument = currentDocument;
+  const prevServerRendering = serverRendering;
+  const prevRenderedScopes = renderedScopes;
+  const scopes = new Set<string>();
+  currentDocument = createServerDocument() as unknown as Document;
+  serverRendering = true;
+  renderedScopes = scopes;
+  try {
+    const container = getDocument().createElement("div");
+    const block = mountRoot(container, blockBuilder, data);
+    const result = container.innerHTML;
+    // release all signal subscriptions of the rendered blocks
+    block.unmount();
+    // the styles of rendered blocks are placed before their markup
+    let styles = "";
+    scopes.forEach((scope) => {
+      styles += `<style data-scope="${scope}">${stylesheetTexts.get(
+        scope
+      )}</style>`;
+    });
+    return styles + result;
+  } finally {
+    currentDocument = prevDocument;
+    serverRendering = prevServerRendering;
+    renderedScopes = prevRenderedScopes;
+  }
+};
+
+export const html = (template: TemplateStringsArray, ...args: any[]) =>
+  String.raw(template, ...args);
+
+export const signal = createSignal;
+
+export type Stylesheet = {
+  /**
+   * the class that is added to the elements of the blocks that use this stylesheet.
+   * The root elements have the "<scope>-root" class as well
+   */
+  readonly scope: string;
+  /**
+   * the scoped css text
+   */
+  readonly text: string;
+};
+
+// scope => the scoped css text
+const stylesheetTexts = new Map<string, string>();
+
+// document or shadow root => scope => the injected style element and the number of mounted blocks that use it
+const injectedStyles = new WeakMap<
+  Node,
+  Map<string, { element: Element; count: number }>
+>();
+
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 33) ^ value.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const addClasses = (element: Element, classes: string) => {
+  const className = element.getAttribute("class");
+  element.setAttribute("class", (className ? className + " " : "") + classes);
+};
+
+// add the scope classes to all elements of the block template, including the content of toggled templates
+const addScopeClasses = (
+  content: Element | DocumentFragment,
+  scopes: string[]
+) => {
+  const classes = scopes.join(" ");
+  const addToDescendants = (parent: Element | DocumentFragment) =>
+    Array.from(parent.children).forEach((element) => {
+      addClasses(element, classes);
+      addToDescendants(
+        element.tagName === "TEMPLATE"
+          ? (element as HTMLTemplateElement).content
+          : element
+      );
+    });
+  const rootClasses = scopes.map((scope) => scope + "-root").join(" ");
+  if (content.nodeType === 11) {
+    addToDescendants(content);
+    Array.from(content.children).forEach((element) =>
+      addClasses(element, rootClasses)
+    );
+  } else {
+    addClasses(content as Element, classes + " " + rootClasses);
+    addToDescendants(content as Element);
+  }
+};
+
+const scopeSelector = (selector: string, scope: string) => {
+  // the scope class must be added before the pseudo-element (ex: ::before)
+  const [, target, pseudoElement = ""] = selector.match(
+    /^(.*?)((?:::|:(?=(?:before|after|first-line|first-letter)\b)).*)?$/
+  )!;
+  // & is the root element of the block
+  const scoped = target.replace(/&/g, `.${scope}-root`);
+  // the target element must have the scope class, so the styles do not apply to the nested blocks
+  return (target.endsWith("&") ? scoped : `${scoped}.${scope}`) + pseudoElement;
+};
+
+const scopeRules = (text: string, scope: string): string => {
+  let result = "";
+  let index = 0;
+  while (index < text.length) {
+    const start = text.indexOf("{", index);
+    if (start === -1) {
+      result += text.slice(index);
+      break;
+    }
+    let end = start + 1;
+    for (let depth = 1; end < text.length && depth; end++) {
+      if (text[end] === "{") depth++;
+      else if (text[end] === "}") depth--;
+    }
+    // the statements before the rule (ex: @import) are kept
+    let prelude = text.slice(index, start);
+    const statementEnd = prelude.lastIndexOf(";") + 1;
+    result += prelude.slice(0, statementEnd);
+    prelude = prelude.slice(statementEnd).trim();
+    const body = text.slice(start + 1, end - 1);
+    if (prelude[0] === "@") {
+      // the rules of conditional groups are scoped, others (ex: @keyframes, @font-face) are kept
+      result += /^@(media|supports|container|layer)\b/.test(prelude)
+        ? `${prelude}{${scopeRules(body, scope)}}`
+        : `${prelude}{${body}}`;
+    } else {
+      result += `${prelude
+        .split(",")
+        .map((selector) => scopeSelector(selector.trim(), scope))
+        .join(",")}{${body}}`;
+    }
+    index = end;
+  }
+  return result;
+};
+
+const injectStyles = (scope: string, node: Node) => {
+  const root = node.getRootNode();
+  // the styles of the blocks inside the shadow root are injected into that shadow root
+  const target =
+    root.nodeType === 11 && (root as ShadowRoot).host ? root : getDocument();
+  let styles = injectedStyles.get(target);
+  if (!styles) {
+    styles = new Map();
+    injectedStyles.set(target, styles);
+  }
+  let style = styles.get(scope);
+  if (!style) {
+    // the style that is rendered by renderToString is reused while hydrating
+    let element = hydrationRoot?.querySelector(`style[data-scope="${scope}"]`);
+    if (!element) {
+      element = getDocument().createElement("style");
+      element.setAttribute("data-scope", scope);
+      element.textContent = stylesheetTexts.get(scope)!;
+      (target === getDocument() ? getDocument().head : target).appendChild(
+        element
+      );
+    }
+    style = { element, count: 0 };
+    styles.set(scope, style);
+  }
+  style.count++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    if (--style!.count) return;
+    styles!.delete(scope);
+    style!.element.parentNode?.removeChild(style!.element);
+  };
+};
+
+/**
+ * create the stylesheet that is scoped to the blocks that use it.
+ * The selectors match the elements of the block templates only (not the nested blocks), use & to match the root elements
+ * ```js
+ * const styles = css`
+ *   & { padding: 8px; }
+ *   h1 { color: red; }
+ * `;
+ * // in block builder
+ * context.styles(styles);
+ * ```
+ */
+export const css = (
+  template: TemplateStringsArray,
+  ...args: any[]
+): Stylesheet => {
+  const source = String.raw(template, ...args).replace(/\/\*[\s\S]*?\*\//g, "");
+  // the scope is generated from the source, so it is the same on the server and the browser
+  const scope = "dz-" + hashString(source);
+  const text = scopeRules(source, scope).trim();
+  stylesheetTexts.set(scope, text);
+  return { scope, text };
+};
+
+/**
+ * create a block builder that loads the actual block builder lazily
+ * ```js
+ * const Chart = lazy(() => import("./Chart"));
+ *
+ * ref(Chart, data, { loading: "<div>Loading...</div>" });
+ * ```
+ * @param loader
+ */
+export const lazy = <C extends Controller, D = void>(
+  loader: () => Promise<BlockBuilder<C, D> | { default: BlockBuilder<C, D> }>
+): BlockBuilder<C, D> =>
+  ((context: Context, data: D) =>
+    loader().then((module) =>
+      ("default" in module ? module.default : module)(context, data)
+    )) as BlockBuilder<C, D>;
+
+/**
+ * create a typed key for providing/injecting values through the context tree
+ * ```js
+ * const ThemeKey = createKey("theme");
+ * // in parent block
+ * context.provide(ThemeKey, "dark");
+ * // in descendant block
+ * const theme = context.inject(ThemeKey, "light");
+ * ```
+ * @param name
+ */
+export const createKey = <T>(name = ""): Key<T> => ({ name });
+
+/**
+ * create a read-only signal that computes its value from other signals.
+ * The signals that are accessed inside the compute function are tracked automatically,
+ * the value is computed lazily and is memoized until the dependency signals changed
+ * ```js
+ * const todos = signal([]);
+ * const doneCount = computed(() => todos.state.filter((x) => x.done).length);
+ * ```
+ * @param compute
+ * @param options
+ */
+export const computed = <T>(
+  compute: () => T,
+  { equals }: { equals?: Equals<T> } = {}
+) => createComputed(compute, equals);
+
+export type ResourceStatus = "loading" | "success" | "error";
+
+export type ResourceState<T> = {
+  readonly status: ResourceStatus;
+  /**
+   * the latest fetched data, it is kept while refetching or if the refetching failed
+   */
+  readonly data: T | undefined;
+  readonly error: unknown;
+};
+
+export type ResourceContext = {
+  /**
+   * the signal is aborted once the next request started
+   */
+  signal: AbortSignal | undefined;
+  /**
+   * the values of dependency signals
+   */
+  deps: any[];
+};
+
+export type ResourceOptions<T> = {
+  /**
+   * the resource is refetched once the dependency signals changed
+   */
+  deps?: Signal[];
+  initialData?: T;
+};
+
+export type Resource<T> = SelectableSignal<ResourceState<T>> & {
+  /**
+   * fetch the data again, the pending request will be aborted
+   */
+  refetch(): Promise<void>;
+  /**
+   * change the data locally, the pending request will be aborted
+   * @param data
+   */
+  mutate(data: T | ((prev: T | undefined) => T)): void;
+  /**
+   * stop refetching once the dependency signals changed, the pending request will be aborted
+   */
+  dispose(): void;
+};
+
+/**
+ * create a signal of the async data, the stale responses are ignored
+ * ```js
+ * const userId = signal(1);
+ * const user = resource(({ signal, deps: [id] }) => fetch(`/users/${id}`, { signal }).then((res) => res.json()), { deps: [userId] });
+ * // in block builder
+ * on(user).text((x) => x.status === "loading" ? "Loading..." : x.data.name)
+ * ```
+ * @param fetcher
+ * @param options
+ */
+export const resource = <T>(
+  fetcher: (context: ResourceContext) => Promise<T> | T,
+  { deps = [], initialData }: ResourceOptions<T> = {}
+): Resource<T> => {
+  const state = createSignal<ResourceState<T>>({
+    status: "loading",
+    data: initialData,
+    error: undefined,
+  });
+  let abortController: AbortController | undefined;
+  let requestCount = 0;
+
+  const abort = () => {
+    abortController?.abort();
+    abortController = undefined;
+    requestCount++;
+  };
+
+  const refetch = async () => {
+    abort();
+    const requestId = requestCount;
+    const currentAbortController =
+      typeof AbortController === "function" ? new AbortController() : undefined;
+    abortController = currentAbortController;
+    if (state.state.status !== "loading") {
+      state.set((prev) => ({ ...prev, status: "loading" }));
+    }
+    let nextState: ResourceState<T>;
+    try {
+      const data = await fetcher({
+        signal: currentAbortController?.signal,
+        deps: deps.map((dep) => dep.get()),
+      });
+      nextState = { status: "success", data, error: undefined };
+    } catch (error) {
+      nextState = { status: "error", data: state.state.data, error };
+    }
+    // the response of stale request is ignored
+    if (requestId !== requestCount) return;
+    abortController = undefined;
+    state.set(nextState);
+  };
+
+  const unsubscribes = deps.map((dep) => dep.on(refetch));
+  refetch();
+
+  return {
+    get state() {
+      return state.state;
+    },
+    get: state.get,
+    on: state.on,
+    select: state.select,
+    refetch,
+    mutate(data) {
+      abort();
+      state.set((prev) => ({
+        status: "success",
+        data:
+          typeof data === "function"
+            ? (data as (prev: T | undefined) => T)(prev.data)
+            : data,
+        error: undefined,
+      }));
+    },
+    dispose() {
+      abort();
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes.length = 0;
+    },
+  };
+};
+
+export type HistoryOptions = {
+  /**
+   * the max number of undo steps, default is 100
+   */
+  limit?: number;
+  /**
+   * the successive changes that are made within this duration (ms) are grouped into one step, default is 0 (no grouping)
+   */
+  groupWithin?: number;
+};
+
+export type SignalHistory = {
+  readonly canUndo: Signal<boolean>;
+  readonly canRedo: Signal<boolean>;
+  undo(): void;
+  redo(): void;
+  /**
+   * remove all undo and redo steps
+   */
+  clear(): void;
+  /**
+   * stop recording the state changes and remove all steps.
+   * The persisted signal stops syncing with the storage as well
+   */
+  dispose(): void;
+};
+
+/**
+ * record the state changes of the signal, so they can be undone and redone
+ * ```js
+ * const doc = withHistory(signal({ text: "" }), { groupWithin: 500 });
+ * doc.set({ text: "Hello" });
+ * doc.undo();
+ * // in block builder
+ * on(doc.canUndo).show()
+ * ```
+ * @param signal the updatable or reducer signal
+ * @param options
+ */
+export const withHistory = <S extends UpdatableSignal | EmittableSignal>(
+  signal: S,
+  { limit = 100, groupWithin = 0 }: HistoryOptions = {}
+): S & SignalHistory => {
+  const restore = signalRestorers.get(signal);
+  if (!restore) {
+    throw new Error(
+      "The history can be used for updatable or reducer signals only"
+    );
+  }
+  const canUndo = createSignal(false);
+  const canRedo = createSignal(false);
+  let past: any[] = [];
+  let future: any[] = [];
+  let lastState = untrack(signal.get);
+  let lastChangeTime = 0;
+
+  const update = () => {
+    canUndo.set(past.length > 0);
+    canRedo.set(future.length > 0);
+  };
+
+  const go = (from: any[], to: any[]) => {
+    if (!from.length) return;
+    to.push(lastState);
+    lastState = from.pop();
+    // the next change starts a new step
+    lastChangeTime = 0;
+    batch(() => {
+      restore(lastState);
+      update();
+    });
+  };
+
+  const clear = () => {
+    past = [];
+    future = [];
+    lastChangeTime = 0;
+    update();
+  };
+
+  const unsubscribe = signal.on((state: any) => {
+    // the change is made by undo or redo
+    if (state === lastState) return;
+    const now = Date.now();
+    if (!past.length || now - lastChangeTime >= groupWithin) {
+      past.push(lastState);
+      if (past.length > limit) past.shift();
+    }
+    future = [];
+    lastState = state;
+    lastChangeTime = now;
+    update();
+  });
+
+  return Object.assign(Object.create(signal), {
+    canUndo,
+    canRedo,
+    undo: () => go(past, future),
+    redo: () => go(future, past),
+    clear,
+    dispose() {
+      unsubscribe();
+      clear();
+      // the dispose method of the persisted signal is hidden by this method
+      (signal as Partial<PersistedSignal>).dispose?.();
+    },
+  });
+};
+
+export type RouterMode = "history" | "hash" | "memory";
+
+export type RouteMatch = {
+  /**
+   * the current path without query string
+   */
+  readonly path: string;
+  /**
+   * the route pattern that matches the current path, it is undefined if there is no matched route
+   */
+  readonly route: string | undefined;
+  readonly params: Record<string, string>;
+  readonly query: Record<string, string>;
+};
+
+export type RouterOptions = {
+  /**
+   * - history: use the location pathname (default)
+   * - hash: use the location hash
+   * - memory: keep the history entries in memory, the location is not touched (ex: in tests)
+   */
+  mode?: RouterMode;
+  /**
+   * route pattern => the block that is rendered by the outlet.
+   * The route pattern can contain params (/users/:id) and wildcard (/files/*), the "*" pattern matches all paths
+   */
+  routes: Record<string, BlockBuilder<any, RouteMatch>>;
+  /**
+   * the initial path of memory mode
+   */
+  initialPath?: string;
+};
+
+export type Router = {
+  /**
+   * the signal of the current route
+   */
+  readonly route: Signal<RouteMatch>;
+  navigate(path: string): void;
+  replace(path: string): void;
+  back(): void;
+};
+
+const routerKey = createKey<Router>("router");
+
+// router => the route blocks that are rendered by the outlets
+const routerBlocks = new WeakMap<Router, RouterOptions["routes"]>();
+
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // the malformed param (ex: %E0%A4%A) is kept as it is
+    return value;
+  }
+};
+
+const compileRoute = (route: string) => {
+  const names: string[] = [];
+  const pattern = route
+    .split("/")
+    .map((segment) => {
+      if (segment === "*") {
+        names.push("*");
+        return "(.*)";
+      }
+      if (segment.startsWith(":")) {
+        names.push(segment.substring(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  const regex = new RegExp(`^${pattern}/?$`);
+  return (path: string) => {
+    const result = regex.exec(path);
+    if (!result) return undefined;
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => {
+      params[name] = decodeParam(result[index + 1]);
+    });
+    return params;
+  };
+};
+
+const parseQuery = (search: string) => {
+  const query: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    query[key] = value;
+  });
+  return query;
+};
+
+const createRouter = ({
+  mode = "history",
+  routes,
+  initialPath = "/",
+}: RouterOptions) => {
+  const matchers = Object.keys(routes).map(
+    (route) => [route, compileRoute(route)] as const
+  );
+  // the history entries of memory mode
+  const entries = [initialPath];
+  let entryIndex = 0;
+  const readPath = () => {
+    // the location is not available while rendering on the server side
+    if (mode === "memory" || typeof location === "undefined") {
+      return entries[entryIndex];
+    }
+    if (mode === "hash") return location.hash.substring(1) || "/";
+    return location.pathname + location.search;
+  };
+  const match = (fullPath: string): RouteMatch => {
+    const [path, search = ""] = fullPath.split("?");
+    for (const [route, matcher] of matchers) {
+      const params = matcher(path);
+      if (params) return { path, route, params, query: parseQuery(search) };
+    }
+    return { path, route: undefined, params: {}, query: parseQuery(search) };
+  };
+  let currentPath = readPath();
+  const route = signal(match(currentPath));
+  const sync = () => {
+    const path = readPath();
+    if (path === currentPath) return;
+    currentPath = path;
+    route.set(match(path));
+  };
+  const push = (path: string, replace: boolean) => {
+    if (mode === "memory") {
+      if (replace) {
+        entries[entryIndex] = path;
+      } else {
+        entries.splice(++entryIndex, entries.length, path);
+      }
+    } else {
+      history[replace ? "replaceState" : "pushState"](
+        null,
+        "",
+        mode === "hash" ? "#" + path : path
+      );
+    }
+    sync();
+  };
+  const instance: Router & { listen(): VoidFunction } = {
+    route,
+    navigate(path) {
+      push(path, false);
+    },
+    replace(path) {
+      push(path, true);
+    },
+    back() {
+      if (mode !== "memory") {
+        history.back();
+        return;
+      }
+      if (!entryIndex) return;
+      entryIndex--;
+      sync();
+    },
+    /**
+     * listen the location changes that are made by the browser (ex: back/forward buttons)
+     */
+    listen() {
+      if (mode === "memory") return () => {};
+      const type = mode === "hash" ? "hashchange" : "popstate";
+      window.addEventListener(type, sync);
+      return () => window.removeEventListener(type, sync);
+    },
+  };
+  routerBlocks.set(instance, routes);
+  return instance;
+};
+
+/**
+ * an extension that creates a router and provides it for the outlets of this block and its descendant blocks
+ * ```js
+ * const App = ({ use, outlet }) => {
+ *   const { navigate } = use(router({ routes: { "/": Home, "/users/:id": User } }));
+ *   return `<div>${outlet()}</div>`;
+ * };
+ * ```
+ * @param options
+ */
+export const router =
+  (options: RouterOptions): Extension<Router> =>
+  (context) => {
+    const instance = createRouter(options);
+    context.provide(routerKey, instance);
+    context.effect(() => instance.listen());
+    return instance;
+  };
+
+/**
+ * an extension that returns the router that is provided by ancestor blocks
+ */
+export const useRouter: Extension<Router> = (context) =>
+  context.inject(routerKey);
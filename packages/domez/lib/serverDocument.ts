@@ -0,0 +1,545 @@
+/**
+ * a minimal DOM implementation that is used to render blocks on the server side (without jsdom).
+ * It supports only the DOM APIs that are used by the rendering logic
+ */
+
+export type ServerNode = {
+  readonly nodeType: number;
+  readonly nodeName: string;
+  parentNode: ServerNode | null;
+  childNodes: ServerNode[];
+  readonly nextSibling: ServerNode | null;
+  readonly previousSibling: ServerNode | null;
+  textContent: string;
+  before(...nodes: ServerNode[]): void;
+  remove(): void;
+  insertBefore(newNode: ServerNode, refNode: ServerNode | null): ServerNode;
+  appendChild(node: ServerNode): ServerNode;
+  removeChild(node: ServerNode): ServerNode;
+  cloneNode(deep?: boolean): ServerNode;
+  [key: string]: any;
+};
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+const voidElements = new Set(
+  "area,base,br,col,embed,hr,img,input,link,meta,param,source,track,wbr".split(
+    ","
+  )
+);
+
+const rawTextElements = new Set(["script", "style", "textarea", "title"]);
+
+// the props that are reflected to the element attributes
+const reflectedProps: Record<string, string> = {
+  id: "id",
+  className: "class",
+  title: "title",
+  name: "name",
+  type: "type",
+  href: "href",
+  src: "src",
+  placeholder: "placeholder",
+};
+
+const booleanProps = [
+  "checked",
+  "disabled",
+  "selected",
+  "multiple",
+  "hidden",
+  "readOnly",
+];
+
+const entities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      return String.fromCodePoint(
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10)
+      );
+    }
+    return entities[entity.toLowerCase()] ?? match;
+  });
+
+const escapeText = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+const toKebabCase = (value: string) =>
+  value.startsWith("--")
+    ? value
+    : value.replace(/[A-Z]/g, (x) => "-" + x.toLowerCase());
+
+const createNode = (nodeType: number, nodeName: string): ServerNode => {
+  const node: ServerNode = {
+    nodeType,
+    nodeName,
+    parentNode: null,
+    childNodes: [],
+    get nextSibling() {
+      const siblings = node.parentNode?.childNodes;
+      return siblings?.[siblings.indexOf(node) + 1] ?? null;
+    },
+    get previousSibling() {
+      const siblings = node.parentNode?.childNodes;
+      return siblings?.[siblings.indexOf(node) - 1] ?? null;
+    },
+    get textContent(): string {
+      return node.childNodes
+        .filter((x) => x.nodeType !== COMMENT_NODE)
+        .map((x) => x.textContent)
+        .join("");
+    },
+    set textContent(value: string) {
+      node.childNodes.slice().forEach((x) => node.removeChild(x));
+      if (value !== "" && value !== null && value !== undefined) {
+        node.appendChild(createTextNode(String(value)));
+      }
+    },
+    before(...nodes) {
+      nodes.forEach((x) => node.parentNode?.insertBefore(x, node));
+    },
+    remove() {
+      node.parentNode?.removeChild(node);
+    },
+    insertBefore(newNode, refNode) {
+      if (newNode.nodeType === DOCUMENT_FRAGMENT_NODE) {
+        newNode.childNodes
+          .slice()
+          .forEach((x: ServerNode) => node.insertBefore(x, refNode));
+        return newNode;
+      }
+      newNode.remove();
+      const index = refNode ? node.childNodes.indexOf(refNode) : -1;
+      if (index === -1) {
+        node.childNodes.push(newNode);
+      } else {
+        node.childNodes.splice(index, 0, newNode);
+      }
+      newNode.parentNode = node;
+      return newNode;
+    },
+    appendChild(newNode) {
+      return node.insertBefore(newNode, null);
+    },
+    removeChild(child) {
+      const index = node.childNodes.indexOf(child);
+      if (index !== -1) {
+        node.childNodes.splice(index, 1);
+        child.parentNode = null;
+      }
+      return child;
+    },
+    cloneNode(deep) {
+      const clone = node.shallowClone();
+      if (deep) {
+        node.childNodes.forEach((x) => clone.appendChild(x.cloneNode(true)));
+      }
+      return clone;
+    },
+  };
+  return node;
+};
+
+const createCharacterData = (nodeType: number, data: string) => {
+  const node = createNode(
+    nodeType,
+    nodeType === TEXT_NODE ? "#text" : "#comment"
+  );
+  Object.defineProperties(node, {
+    data: { value: data, writable: true },
+    nodeValue: {
+      get: () => node.data,
+      set: (value) => (node.data = value),
+    },
+    textContent: {
+      get: () => node.data,
+      set: (value) => (node.data = value),
+    },
+  });
+  node.shallowClone = () => createCharacterData(nodeType, node.data);
+  return node;
+};
+
+const createTextNode = (data: string) => createCharacterData(TEXT_NODE, data);
+
+const createComment = (data: string) => createCharacterData(COMMENT_NODE, data);
+
+const createFragment = () => {
+  const fragment = createNode(DOCUMENT_FRAGMENT_NODE, "#document-fragment");
+  addParentNodeProps(fragment);
+  fragment.shallowClone = createFragment;
+  return fragment;
+};
+
+const createStyle = () => {
+  const props = new Map<string, string>();
+  const getCssText = () =>
+    Array.from(props)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("; ");
+  const setProperty = (key: string, value: any) => {
+    key = toKebabCase(key);
+    if (value === null || value === undefined || value === "") {
+      props.delete(key);
+    } else {
+      props.set(key, String(value));
+    }
+  };
+  return new Proxy({} as Record<string, any>, {
+    get(_, key) {
+      if (key === "cssText") return getCssText();
+      if (key === "setProperty") return setProperty;
+      if (key === "getPropertyValue") {
+        return (key: string) => props.get(key) ?? "";
+      }
+      if (key === "removeProperty") {
+        return (key: string) => props.delete(key);
+      }
+      return typeof key === "string" ? props.get(toKebabCase(key)) ?? "" : "";
+    },
+    set(_, key, value) {
+      if (typeof key !== "string") return true;
+      if (key === "cssText") {
+        props.clear();
+        String(value ?? "")
+          .split(";")
+          .forEach((declaration) => {
+            const index = declaration.indexOf(":");
+            if (index === -1) return;
+            setProperty(
+              declaration.substring(0, index).trim(),
+              declaration.substring(index + 1).trim()
+            );
+          });
+      } else {
+        setProperty(key, value);
+      }
+      return true;
+    },
+  });
+};
+
+const addParentNodeProps = (node: ServerNode) => {
+  Object.defineProperties(node, {
+    children: {
+      get: () =>
+        node.childNodes.filter((x: ServerNode) => x.nodeType === ELEMENT_NODE),
+    },
+    firstElementChild: {
+      get: () => node.children[0] ?? null,
+    },
+    firstChild: {
+      get: () => node.childNodes[0] ?? null,
+    },
+  });
+  node.querySelector = (selector: string) =>
+    querySelectorAll(node, selector)[0] ?? null;
+  node.querySelectorAll = (selector: string) =>
+    querySelectorAll(node, selector);
+};
+
+const createElement = (tagName: string): ServerNode => {
+  const localName = tagName.toLowerCase();
+  const element = createNode(ELEMENT_NODE, localName.toUpperCase());
+  const attributes = new Map<string, string>();
+  const style = createStyle();
+  let content: ServerNode | undefined;
+
+  addParentNodeProps(element);
+  Object.defineProperties(element, {
+    tagName: { get: () => element.nodeName },
+    localName: { value: localName },
+    style: { get: () => style },
+    innerHTML: {
+      get: () => serializeChildren(content ?? element),
+      set: (value: string) => {
+        const target = content ?? element;
+        target.childNodes.slice().forEach((x: ServerNode) => x.remove());
+        parse(String(value ?? ""), target);
+      },
+    },
+    outerHTML: {
+      get: () => serialize(element),
+    },
+  });
+
+  if (localName === "template") {
+    content = createFragment();
+    Object.defineProperty(element, "content", { get: () => content });
+  }
+
+  Object.entries(reflectedProps).forEach(([prop, attr]) => {
+    Object.defineProperty(element, prop, {
+      get: () => attributes.get(attr) ?? "",
+      set: (value) => element.setAttribute(attr, value),
+    });
+  });
+
+  booleanProps.forEach((prop) => {
+    const attr = prop.toLowerCase();
+    Object.defineProperty(element, prop, {
+      get: () => attributes.has(attr),
+      set: (value) =>
+        value ? element.setAttribute(attr, "") : element.removeAttribute(attr),
+    });
+  });
+
+  const getOptions = () => querySelectorAll(element, "option");
+
+  Object.defineProperty(element, "value", {
+    get: () => {
+      if (localName === "textarea") return element.textContent;
+      if (localName === "select") {
+        const options = getOptions();
+        return (options.find((x) => x.selected) ?? options[0])?.value ?? "";
+      }
+      if (localName === "option") {
+        return attributes.get("value") ?? element.textContent;
+      }
+      return attributes.get("value") ?? "";
+    },
+    set: (value) => {
+      if (localName === "textarea") {
+        element.textContent = value;
+      } else if (localName === "select") {
+        // the value attribute of select is ignored by the browsers, the matched option is selected instead
+        getOptions().forEach((option) => {
+          option.selected = option.value === String(value);
+        });
+      } else {
+        element.setAttribute("value", value);
+      }
+    },
+  });
+
+  if (localName === "select") {
+    Object.defineProperty(element, "options", { get: getOptions });
+  }
+
+  Object.assign(element, {
+    attributes,
+    getAttribute: (name: string) => attributes.get(name.toLowerCase()) ?? null,
+    setAttribute(name: string, value: any) {
+      name = name.toLowerCase();
+      if (name === "style") {
+        style.cssText = value;
+      }
+      attributes.set(name, String(value));
+    },
+    removeAttribute(name: string) {
+      name = name.toLowerCase();
+      if (name === "style") {
+        style.cssText = "";
+      }
+      attributes.delete(name);
+    },
+    hasAttribute: (name: string) => attributes.has(name.toLowerCase()),
+    // the events are never dispatched on the server side
+    addEventListener() {},
+    removeEventListener() {},
+    shallowClone() {
+      const clone = createElement(localName);
+      attributes.forEach((value, name) => clone.setAttribute(name, value));
+      if (content) {
+        content.childNodes.forEach((x: ServerNode) =>
+          clone.content.appendChild(x.cloneNode(true))
+        );
+      }
+      return clone;
+    },
+  });
+
+  return element;
+};
+
+const querySelectorAll = (root: ServerNode, selector: string) => {
+  // only attribute presence selectors and tag selectors are supported. Ex: [data-ref-xxx], template
+  const match = /^\[([^\]=\s]+)\]$|^([a-z][a-z0-9-]*)$/i.exec(selector.trim());
+  if (!match) {
+    throw new Error(`Unsupported selector: ${selector}`);
+  }
+  const name = (match[1] ?? match[2]).toLowerCase();
+  const isMatched = match[1]
+    ? (node: ServerNode) => node.hasAttribute(name)
+    : (node: ServerNode) => node.nodeName.toLowerCase() === name;
+  const result: ServerNode[] = [];
+  const walk = (node: ServerNode) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType !== ELEMENT_NODE) return;
+      if (isMatched(child)) result.push(child);
+      walk(child);
+    });
+  };
+  walk(root);
+  return result;
+};
+
+const parse = (html: string, root: ServerNode) => {
+  const stack: ServerNode[] = [root];
+  // the children of template element are appended to its content
+  const current = () => {
+    const node = stack[stack.length - 1];
+    return node.content ?? node;
+  };
+  const appendText = (text: string) => {
+    if (text) current().appendChild(createTextNode(decodeEntities(text)));
+  };
+  let index = 0;
+
+  while (index < html.length) {
+    const tagStart = html.indexOf("<", index);
+    if (tagStart === -1) {
+      appendText(html.substring(index));
+      break;
+    }
+    appendText(html.substring(index, tagStart));
+    index = tagStart;
+
+    // comment
+    if (html.startsWith("<!--", index)) {
+      const end = html.indexOf("-->", index + 4);
+      const commentEnd = end === -1 ? html.length : end;
+      current().appendChild(
+        createComment(html.substring(index + 4, commentEnd))
+      );
+      index = commentEnd + 3;
+      continue;
+    }
+
+    // doctype or other declarations
+    if (html[index + 1] === "!" || html[index + 1] === "?") {
+      const end = html.indexOf(">", index);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    // closing tag
+    if (html[index + 1] === "/") {
+      const end = html.indexOf(">", index);
+      const name = html
+        .substring(index + 2, end === -1 ? html.length : end)
+        .trim()
+        .toLowerCase();
+      index = end === -1 ? html.length : end + 1;
+      const openIndex = stack.map((x) => x.localName).lastIndexOf(name);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    const nameMatch = /^<([a-zA-Z][^\s/>]*)/.exec(html.substring(index));
+    if (!nameMatch) {
+      appendText("<");
+      index++;
+      continue;
+    }
+    const element = createElement(nameMatch[1]);
+    index += nameMatch[0].length;
+
+    // attributes
+    const attributePattern =
+      /\s*([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?|\s*\/|\s+/y;
+    while (index < html.length && html[index] !== ">") {
+      attributePattern.lastIndex = index;
+      const match = attributePattern.exec(html);
+      if (!match || !match[0].length) {
+        index++;
+        continue;
+      }
+      index = attributePattern.lastIndex;
+      if (match[1]) {
+        element.setAttribute(
+          match[1],
+          decodeEntities(match[2] ?? match[3] ?? match[4] ?? "")
+        );
+      }
+    }
+    index++;
+
+    current().appendChild(element);
+    const localName = element.localName;
+    if (voidElements.has(localName)) continue;
+
+    if (rawTextElements.has(localName)) {
+      const end = html.toLowerCase().indexOf(`</${localName}`, index);
+      const textEnd = end === -1 ? html.length : end;
+      const text = html.substring(index, textEnd);
+      if (text) {
+        element.appendChild(
+          createTextNode(
+            localName === "script" || localName === "style"
+              ? text
+              : decodeEntities(text)
+          )
+        );
+      }
+      const closeEnd = html.indexOf(">", textEnd);
+      index = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    stack.push(element);
+  }
+};
+
+const serializeChildren = (node: ServerNode): string =>
+  node.childNodes.map((x) => serialize(x, node)).join("");
+
+const serialize = (node: ServerNode, parent?: ServerNode): string => {
+  if (node.nodeType === TEXT_NODE) {
+    const parentName = parent?.localName;
+    return parentName === "script" || parentName === "style"
+      ? node.data
+      : escapeText(node.data);
+  }
+  if (node.nodeType === COMMENT_NODE) {
+    return `<!--${node.data}-->`;
+  }
+  if (node.nodeType !== ELEMENT_NODE) {
+    return serializeChildren(node);
+  }
+  const attributes = new Map<string, string>(node.attributes);
+  const cssText = node.style.cssText;
+  if (cssText) {
+    attributes.set("style", cssText);
+  } else {
+    attributes.delete("style");
+  }
+  const attributeString = Array.from(attributes)
+    .map(([name, value]) =>
+      value === "" ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`
+    )
+    .join("");
+  const localName = node.localName;
+  if (voidElements.has(localName)) {
+    return `<${localName}${attributeString}>`;
+  }
+  return `<${localName}${attributeString}>${serializeChildren(
+    node.content ?? node
+  )}</${localName}>`;
+};
+
+export const createServerDocument = () => ({
+  createElement,
+  createTextNode,
+  createComment,
+  createDocumentFragment: createFragment,
+});